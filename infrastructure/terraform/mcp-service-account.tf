@@ -37,6 +37,41 @@ resource "google_project_iam_member" "mcp_monitoring_viewer" {
   member  = "serviceAccount:${google_service_account.mcp_server.email}"
 }
 
+# App databases - for creating and dropping per-app databases and users.
+# roles/cloudsql.admin would also let the Worker modify or delete instances,
+# so only database, user and instance read permissions are granted.
+resource "google_project_iam_custom_role" "mcp_app_databases" {
+  project     = var.project_id
+  role_id     = "mcpAppDatabases"
+  title       = "MCP App Databases"
+  description = "Create and drop per-app databases and users on existing Cloud SQL instances"
+  permissions = [
+    "cloudsql.instances.get",
+    "cloudsql.instances.list",
+    "cloudsql.databases.get",
+    "cloudsql.databases.list",
+    "cloudsql.databases.create",
+    "cloudsql.databases.delete",
+    "cloudsql.users.list",
+    "cloudsql.users.create",
+    "cloudsql.users.update",
+    "cloudsql.users.delete",
+  ]
+}
+
+resource "google_project_iam_member" "mcp_app_databases" {
+  project = var.project_id
+  role    = google_project_iam_custom_role.mcp_app_databases.id
+  member  = "serviceAccount:${google_service_account.mcp_server.email}"
+}
+
+# Artifact Registry Reader - for listing app images and checking image drift
+resource "google_project_iam_member" "mcp_artifact_registry_reader" {
+  project = var.project_id
+  role    = "roles/artifactregistry.reader"
+  member  = "serviceAccount:${google_service_account.mcp_server.email}"
+}
+
 # Kubernetes Engine Viewer - for listing clusters
 resource "google_project_iam_member" "mcp_gke_viewer" {
   project = var.project_id
@@ -0,0 +1,90 @@
+/**
+ * Access policy for the MCP server
+ *
+ * Decides which Google accounts may connect and with which role. The policy
+ * is read from the "access-policy" key in OAUTH_KV, falling back to the
+ * ACCESS_POLICY env var and finally to AUTHORIZED_EMAIL as a single admin.
+ *
+ * Example policy:
+ *   {
+ *     "users": { "alice@example.com": "operator", "bob@gmail.com": "viewer" },
+ *     "domains": { "example.com": "viewer" }
+ *   }
+ */
+
+export type Role = "viewer" | "operator" | "admin";
+
+export interface AccessPolicy {
+  users?: Record<string, Role>; // email -> role
+  domains?: Record<string, Role>; // Google Workspace domain (hd claim) -> role
+}
+
+export interface AccessPolicyEnv {
+  OAUTH_KV: KVNamespace;
+  ACCESS_POLICY?: string;
+  AUTHORIZED_EMAIL?: string;
+}
+
+export const ACCESS_POLICY_KV_KEY = "access-policy";
+
+// Higher roles include everything lower roles can do
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * Load the access policy from KV, config, or the legacy single authorized email
+ */
+export async function loadAccessPolicy(env: AccessPolicyEnv): Promise<AccessPolicy> {
+  const stored = await env.OAUTH_KV.get(ACCESS_POLICY_KV_KEY);
+  if (stored) {
+    return JSON.parse(stored) as AccessPolicy;
+  }
+
+  if (env.ACCESS_POLICY) {
+    return JSON.parse(env.ACCESS_POLICY) as AccessPolicy;
+  }
+
+  return env.AUTHORIZED_EMAIL ? { users: { [env.AUTHORIZED_EMAIL]: "admin" } } : {};
+}
+
+/**
+ * Resolve the role for a user, or null if they aren't allowed in.
+ * An explicit user entry wins over their domain's role.
+ */
+export function resolveRole(policy: AccessPolicy, email: string, hostedDomain?: string): Role | null {
+  const normalisedEmail = email.toLowerCase();
+  for (const [allowedEmail, role] of Object.entries(policy.users || {})) {
+    if (allowedEmail.toLowerCase() === normalisedEmail) {
+      return role;
+    }
+  }
+
+  // Only trust the hd claim, not the email suffix: consumer accounts can use any address
+  if (hostedDomain) {
+    for (const [domain, role] of Object.entries(policy.domains || {})) {
+      if (domain.toLowerCase() === hostedDomain.toLowerCase()) {
+        return role;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A signed-in user's role under the current policy, for re-checking a grant
+ * made under an older one
+ */
+export async function currentRole(env: AccessPolicyEnv, user: { email: string; hostedDomain?: string }): Promise<Role | null> {
+  return resolveRole(await loadAccessPolicy(env), user.email, user.hostedDomain);
+}
+
+/**
+ * Whether a role grants at least the required role
+ */
+export function roleAllows(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && role in ROLE_RANK && ROLE_RANK[role] >= ROLE_RANK[required];
+}
@@ -0,0 +1,224 @@
+/**
+ * Artifact Registry tools for MCP Server
+ *
+ * Lists the images deploy-app.yml pushes for each app to the repository from
+ * infrastructure/terraform/artifact-registry.tf, and compares them with what
+ * the app's Deployment and pods are actually running.
+ */
+
+import { upstreamError } from "./errors";
+import { describeResource, listPods, type GCPClient } from "./gcp-tools";
+
+const ARTIFACT_REGISTRY_API = "https://artifactregistry.googleapis.com/v1";
+
+/**
+ * One pushed image of an app
+ */
+export interface AppImage {
+  digest: string;
+  tags: string[];
+  uri: string;
+  buildTime?: string;
+  uploadTime?: string;
+  sizeBytes?: number;
+}
+
+/**
+ * An app's images, most recently pushed first
+ */
+export interface AppImages {
+  app: string;
+  image: string; // Registry path the images are pushed to, without tag or digest
+  images: AppImage[];
+}
+
+/**
+ * A running container's image, resolved to the digest its node pulled
+ */
+export interface PodImage {
+  pod: string;
+  container: string;
+  image: string;
+  digest?: string; // Unknown until the container has started
+  ready: boolean;
+  matchesDeployment?: boolean;
+  matchesSiblings?: boolean;
+}
+
+/**
+ * Deployed vs built images for an app
+ */
+export interface ImageDrift {
+  app: string;
+  namespace: string;
+  ok: boolean;
+  problems: string[];
+  newest?: AppImage;
+  deployed: { container: string; image: string; digest?: string; uploadTime?: string; newerImages?: number }[];
+  pods: PodImage[];
+}
+
+/**
+ * The Docker repository apps are pushed to
+ */
+function repositoryId(client: GCPClient): string {
+  return client.config.artifactRegistryRepository ?? `${client.config.clusterName}-containers`;
+}
+
+/**
+ * Registry path of an app's images, e.g. europe-west2-docker.pkg.dev/project/tech-island-containers/my-app
+ */
+function appImagePath(client: GCPClient, app: string): string {
+  return `${client.config.region}-docker.pkg.dev/${client.projectId}/${repositoryId(client)}/${app}`;
+}
+
+/**
+ * The sha256 digest in an image reference or imageID, if there is one
+ */
+function imageDigest(reference: string | undefined): string | undefined {
+  return reference?.match(/sha256:[0-9a-f]{64}/)?.[0];
+}
+
+/**
+ * The tag of an image reference, if it has one
+ */
+function imageTag(reference: string): string | undefined {
+  const name = reference.split("@")[0];
+  const lastPart = name.slice(name.lastIndexOf("/") + 1);
+  return lastPart.includes(":") ? lastPart.slice(lastPart.indexOf(":") + 1) : undefined;
+}
+
+/**
+ * Short form of a digest for messages
+ */
+function shortDigest(digest: string): string {
+  return digest.slice(0, "sha256:".length + 12);
+}
+
+/**
+ * List an app's images in Artifact Registry with their tags, digests and
+ * build times, most recently pushed first
+ */
+export async function listAppImages(client: GCPClient, app: string, limit: number = 20): Promise<AppImages> {
+  const repository = `projects/${client.projectId}/locations/${client.config.region}/repositories/${repositoryId(client)}`;
+  const image = appImagePath(client, app);
+
+  // The API can't filter by package, so page through the repository
+  const images: AppImage[] = [];
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ pageSize: "500" });
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const response = await client.fetch(`${ARTIFACT_REGISTRY_API}/${repository}/dockerImages?${params}`);
+
+    if (!response.ok) {
+      throw await upstreamError(response, `Failed to list images`);
+    }
+
+    const data = await response.json() as any;
+    for (const item of data.dockerImages || []) {
+      if (item.uri?.startsWith(`${image}@`)) {
+        images.push({
+          digest: imageDigest(item.uri)!,
+          tags: item.tags || [],
+          uri: item.uri,
+          buildTime: item.buildTime,
+          uploadTime: item.uploadTime,
+          sizeBytes: item.imageSizeBytes === undefined ? undefined : Number(item.imageSizeBytes),
+        });
+      }
+    }
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  images.sort((a, b) => (Date.parse(b.uploadTime || "") || 0) - (Date.parse(a.uploadTime || "") || 0));
+  return { app, image, images: images.slice(0, limit) };
+}
+
+/**
+ * Compare an app's Deployment and pods with its images in Artifact Registry,
+ * flagging a Deployment that isn't on the newest image, an image that's no
+ * longer in the registry, and pods running a different digest than their
+ * siblings or their Deployment
+ */
+export async function checkImageDrift(client: GCPClient, app: string, namespace: string = "apps"): Promise<ImageDrift> {
+  const [{ image, images }, deployment, pods] = await Promise.all([
+    listAppImages(client, app, Number.MAX_SAFE_INTEGER),
+    describeResource(client, "deployment", app, namespace),
+    listPods(client, namespace, `app=${app}`),
+  ]);
+
+  const problems: string[] = [];
+  const newest = images[0];
+  const isAppImage = (reference: string) => reference.startsWith(`${image}:`) || reference.startsWith(`${image}@`);
+
+  // Containers of the Deployment that run this app's image
+  const deployed: ImageDrift["deployed"] = [];
+  for (const container of deployment.spec.template.spec.containers.filter((c: any) => isAppImage(c.image))) {
+    const tag = imageTag(container.image);
+    const index = images.findIndex(
+      (candidate) => candidate.digest === imageDigest(container.image) || (tag !== undefined && candidate.tags.includes(tag))
+    );
+    const built = images[index];
+    deployed.push({
+      container: container.name,
+      image: container.image,
+      digest: built?.digest,
+      uploadTime: built?.uploadTime,
+      newerImages: built ? index : undefined,
+    });
+
+    if (!built) {
+      problems.push(`Deployment image ${container.image} is not in Artifact Registry (push failed, or removed by the cleanup policy)`);
+    } else if (index > 0) {
+      problems.push(
+        `Deployment runs ${tag ?? shortDigest(built.digest)} but ${index} newer image(s) have been pushed; ` +
+          `the newest is ${newest.tags.join(", ") || shortDigest(newest.digest)} (${newest.uploadTime})`
+      );
+    }
+  }
+  if (deployed.length === 0) {
+    problems.push(`Deployment ${app} has no container running an image from ${image}`);
+  }
+
+  const podImages: PodImage[] = pods.items.flatMap((pod) =>
+    pod.containers
+      .filter((container) => deployed.some((d) => d.container === container.name))
+      .map((container) => ({
+        pod: pod.name,
+        container: container.name,
+        image: container.image,
+        digest: imageDigest(container.imageID),
+        ready: container.ready,
+      }))
+  );
+
+  for (const { container, digest: deployedDigest } of deployed) {
+    const running = podImages.filter((p) => p.container === container && p.digest);
+
+    // The digest most pods run is what their siblings are compared against
+    const counts = new Map<string, number>();
+    running.forEach((p) => counts.set(p.digest!, (counts.get(p.digest!) || 0) + 1));
+    const [majority] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+
+    for (const podImage of running) {
+      podImage.matchesSiblings = podImage.digest === majority;
+      podImage.matchesDeployment = deployedDigest === undefined ? undefined : podImage.digest === deployedDigest;
+
+      if (!podImage.matchesSiblings) {
+        problems.push(
+          `Pod ${podImage.pod} runs ${shortDigest(podImage.digest!)} while its siblings run ${shortDigest(majority!)}`
+        );
+      } else if (podImage.matchesDeployment === false) {
+        problems.push(
+          `Pod ${podImage.pod} runs ${shortDigest(podImage.digest!)} but the Deployment's image is ${shortDigest(deployedDigest!)}`
+        );
+      }
+    }
+  }
+
+  return { app, namespace, ok: problems.length === 0, problems, newest, deployed, pods: podImages };
+}
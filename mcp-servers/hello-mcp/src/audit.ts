@@ -0,0 +1,157 @@
+/**
+ * Audit log of MCP tool invocations
+ *
+ * Records are stored in the agent's SQLite-backed Durable Object storage,
+ * one row per tool call.
+ */
+
+type SqlValue = string | number | boolean | null;
+
+// The McpAgent sql template tag
+export type SqlTag = <T = Record<string, SqlValue>>(strings: TemplateStringsArray, ...values: SqlValue[]) => T[];
+
+export interface AuditRecord {
+  id: number;
+  timestamp: string;
+  userId: string | null;
+  email: string | null;
+  tool: string;
+  args: string;
+  durationMs: number;
+  success: boolean;
+  error: string | null;
+}
+
+export interface AuditQuery {
+  email?: string;
+  tool?: string;
+  since?: string; // ISO timestamp
+  until?: string; // ISO timestamp
+  limit?: number;
+}
+
+// Argument names whose values are never written to the audit log; request
+// bodies (e.g. probe_app's) are where credentials usually end up
+const SENSITIVE_ARG = /secret|password|passwd|token|credential|authorization|private|api[_-]?key|^body$/i;
+
+// Longest string argument value kept in the audit log
+const MAX_ARG_LENGTH = 200;
+
+/**
+ * Create the audit table if it doesn't exist yet
+ */
+export function ensureAuditTable(sql: SqlTag): void {
+  sql`CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    user_id TEXT,
+    email TEXT,
+    tool TEXT NOT NULL,
+    args TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    success INTEGER NOT NULL,
+    error TEXT
+  )`;
+  sql`CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp)`;
+}
+
+/**
+ * Redact a sensitive argument, keeping the key names of a map (e.g. which
+ * secret keys were set) but none of its values
+ */
+function redact(value: unknown): unknown {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.fromEntries(Object.keys(value).map((key) => [key, "[REDACTED]"]));
+  }
+  return "[REDACTED]";
+}
+
+/**
+ * Redact sensitive values and truncate long strings in tool arguments
+ */
+export function sanitiseArgs(args: unknown): unknown {
+  if (typeof args === "string") {
+    return args.length > MAX_ARG_LENGTH ? `${args.slice(0, MAX_ARG_LENGTH)}…` : args;
+  }
+  if (Array.isArray(args)) {
+    return args.map(sanitiseArgs);
+  }
+  if (args && typeof args === "object") {
+    return Object.fromEntries(
+      Object.entries(args).map(([key, value]) => [key, SENSITIVE_ARG.test(key) ? redact(value) : sanitiseArgs(value)])
+    );
+  }
+  return args;
+}
+
+/**
+ * Write one audit record
+ */
+export function recordAudit(
+  sql: SqlTag,
+  entry: { userId?: string; email?: string; tool: string; args: unknown; durationMs: number; error?: string }
+): void {
+  sql`INSERT INTO audit_log (timestamp, user_id, email, tool, args, duration_ms, success, error)
+    VALUES (
+      ${new Date().toISOString()},
+      ${entry.userId ?? null},
+      ${entry.email ?? null},
+      ${entry.tool},
+      ${JSON.stringify(sanitiseArgs(entry.args) ?? {})},
+      ${Math.round(entry.durationMs)},
+      ${entry.error === undefined ? 1 : 0},
+      ${entry.error ?? null}
+    )`;
+}
+
+/**
+ * Timestamps are compared as strings, so bring them into the stored
+ * toISOString() form (e.g. "2026-01-01T10:00:00Z" → "2026-01-01T10:00:00.000Z")
+ */
+function normaliseTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp "${timestamp}"`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Query recent audit records, newest first
+ */
+export function queryAudit(sql: SqlTag, query: AuditQuery = {}): AuditRecord[] {
+  const email = query.email ?? null;
+  const tool = query.tool ?? null;
+  const since = query.since ? normaliseTimestamp(query.since) : null;
+  const until = query.until ? normaliseTimestamp(query.until) : null;
+
+  const rows = sql<{
+    id: number;
+    timestamp: string;
+    user_id: string | null;
+    email: string | null;
+    tool: string;
+    args: string;
+    duration_ms: number;
+    success: number;
+    error: string | null;
+  }>`SELECT * FROM audit_log
+    WHERE (${email} IS NULL OR email = ${email})
+      AND (${tool} IS NULL OR tool = ${tool})
+      AND (${since} IS NULL OR timestamp >= ${since})
+      AND (${until} IS NULL OR timestamp <= ${until})
+    ORDER BY id DESC
+    LIMIT ${query.limit ?? 50}`;
+
+  return rows.map((row) => ({
+    id: row.id,
+    timestamp: row.timestamp,
+    userId: row.user_id,
+    email: row.email,
+    tool: row.tool,
+    args: row.args,
+    durationMs: row.duration_ms,
+    success: row.success === 1,
+    error: row.error,
+  }));
+}
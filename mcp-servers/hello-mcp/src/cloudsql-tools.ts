@@ -0,0 +1,348 @@
+/**
+ * Cloud SQL tools for MCP Server
+ *
+ * Gives apps their own database and user on the shared Cloud SQL instance
+ * (infrastructure/terraform/cloudsql.tf) through the Cloud SQL Admin REST
+ * API, authenticated with the same service account as the GKE tools.
+ */
+
+import { ForbiddenError, NotFoundError, PreconditionError, UpstreamTimeoutError, upstreamError } from "./errors";
+import {
+  deleteAppSecretKeys,
+  findWritableAppSecret,
+  listAppSecrets,
+  setAppSecretKeys,
+  type AppSecretUpdate,
+  type GCPClient,
+} from "./gcp-tools";
+
+const SQL_ADMIN_API = "https://sqladmin.googleapis.com/v1";
+
+// Databases and users that belong to the platform rather than to an app
+const RESERVED_NAMES = ["postgres", "techisland", "cloudsqlsuperuser", "cloudsqladmin"];
+
+const POSTGRES_PORT = 5432;
+const PASSWORD_LENGTH = 32;
+const OPERATION_POLL_INTERVAL_MS = 1000;
+export const OPERATION_TIMEOUT_MS = 4 * 60 * 1000;
+
+/**
+ * Options for provisioning an app database
+ */
+export interface ProvisionOptions {
+  namespace?: string;
+  writeSecret?: boolean; // Write DATABASE_URL into the app's Kubernetes secret (default: true)
+  secretName?: string; // Default: <app>-secrets
+  secretKey?: string; // Default: DATABASE_URL
+  rotatePassword?: boolean; // Set a new password when the user already exists
+  restart?: boolean; // Restart the app's Deployment after writing the secret
+}
+
+/**
+ * Connection details of an app database. The password is only included
+ * when it was just set and not written to a secret, since it can't be
+ * recovered later.
+ */
+export interface AppDatabase {
+  app: string;
+  instance: string;
+  connectionName: string;
+  host?: string; // Private IP, reachable from the cluster
+  port: number;
+  database: string;
+  user: string;
+  created: { database: boolean; user: boolean };
+  passwordSet: boolean;
+  password?: string;
+  secret?: {
+    name: string;
+    key: string;
+    written: boolean;
+    present: boolean;
+    rollout?: AppSecretUpdate["rollout"];
+    restartError?: string;
+  };
+}
+
+/**
+ * Result of tearing down an app database
+ */
+export interface AppDatabaseTeardown {
+  app: string;
+  instance: string;
+  database: string;
+  user: string;
+  deleted: { database: boolean; user: boolean };
+  secretKeyRemoved: boolean;
+}
+
+/**
+ * Postgres database and user name for an app (hyphens aren't valid unquoted identifiers)
+ */
+function databaseName(app: string): string {
+  if (!/^[a-z][a-z0-9-]*$/.test(app)) {
+    throw new Error(`Invalid app name "${app}": expected lowercase letters, digits and hyphens`);
+  }
+
+  const name = app.replace(/-/g, "_");
+  if (RESERVED_NAMES.includes(name)) {
+    throw new ForbiddenError(`"${name}" is a platform database, not an app database`);
+  }
+  return name;
+}
+
+/**
+ * Random alphanumeric password (no special characters, so it needs no
+ * escaping in a connection URL)
+ */
+function generatePassword(): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let password = "";
+  while (password.length < PASSWORD_LENGTH) {
+    const [byte] = crypto.getRandomValues(new Uint8Array(1));
+    // Reject the top of the byte range so every character is equally likely
+    if (byte < 256 - (256 % alphabet.length)) {
+      password += alphabet[byte % alphabet.length];
+    }
+  }
+  return password;
+}
+
+/**
+ * Fetch a Cloud SQL Admin API resource, or null if it doesn't exist
+ */
+async function findSqlResource(client: GCPClient, url: string, description: string): Promise<any | null> {
+  const response = await client.fetch(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to get ${description}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Start a Cloud SQL Admin API mutation and wait for its operation to finish
+ */
+async function runSqlOperation(
+  client: GCPClient,
+  url: string,
+  init: RequestInit,
+  description: string
+): Promise<void> {
+  const response = await client.fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to ${description}`);
+  }
+
+  let operation = await response.json() as any;
+  const deadline = Date.now() + OPERATION_TIMEOUT_MS;
+
+  while (operation.status !== "DONE") {
+    if (Date.now() > deadline) {
+      throw new UpstreamTimeoutError(`Timed out waiting to ${description} (operation ${operation.name})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, OPERATION_POLL_INTERVAL_MS));
+
+    const poll = await client.fetch(`${SQL_ADMIN_API}/projects/${client.projectId}/operations/${operation.name}`);
+    if (!poll.ok) {
+      throw await upstreamError(poll, `Failed to check operation ${operation.name}`);
+    }
+    operation = await poll.json();
+  }
+
+  const errors: any[] = operation.error?.errors || [];
+  if (errors.length > 0) {
+    throw new Error(`Failed to ${description}: ${errors.map((error) => error.message || error.code).join("; ")}`);
+  }
+}
+
+/**
+ * The Cloud SQL instance to use: the configured one, or the project's only instance
+ */
+async function getInstance(client: GCPClient): Promise<any> {
+  const base = `${SQL_ADMIN_API}/projects/${client.projectId}/instances`;
+
+  if (client.config.cloudSqlInstance) {
+    const instance = await findSqlResource(client, `${base}/${client.config.cloudSqlInstance}`, "Cloud SQL instance");
+    if (!instance) {
+      throw new NotFoundError(`Cloud SQL instance ${client.config.cloudSqlInstance} not found`);
+    }
+    return instance;
+  }
+
+  const response = await client.fetch(base);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list Cloud SQL instances`);
+  }
+
+  const data = await response.json() as any;
+  const instances: any[] = data.items || [];
+  if (instances.length !== 1) {
+    throw new Error(`Found ${instances.length} Cloud SQL instances in ${client.projectId}; set CLOUDSQL_INSTANCE to choose one`);
+  }
+  return instances[0];
+}
+
+/**
+ * Create (if needed) a database and user for an app on the shared instance,
+ * and write its DATABASE_URL into the app's secret. Safe to re-run: existing
+ * databases and users are left alone unless rotatePassword is set.
+ */
+export async function provisionAppDatabase(
+  client: GCPClient,
+  app: string,
+  options: ProvisionOptions = {}
+): Promise<AppDatabase> {
+  const {
+    namespace = "apps",
+    writeSecret = true,
+    secretName = `${app}-secrets`,
+    secretKey = "DATABASE_URL",
+    rotatePassword = false,
+    restart = false,
+  } = options;
+  const name = databaseName(app);
+
+  const instance = await getInstance(client);
+  const instanceUrl = `${SQL_ADMIN_API}/projects/${client.projectId}/instances/${instance.name}`;
+  const host = (instance.ipAddresses || []).find((address: any) => address.type === "PRIVATE")?.ipAddress;
+
+  const database = await findSqlResource(client, `${instanceUrl}/databases/${name}`, `database ${name}`);
+  const user = await findSqlResource(client, `${instanceUrl}/users/${name}`, `user ${name}`);
+  const settingPassword = !user || rotatePassword;
+
+  // Fail before setting a password that then couldn't be written anywhere
+  if (writeSecret && settingPassword) {
+    if (!host) {
+      throw new PreconditionError(`Cloud SQL instance ${instance.name} has no private IP to put in ${secretKey}`);
+    }
+    await findWritableAppSecret(client, app, secretName, namespace);
+  }
+
+  if (!database) {
+    await runSqlOperation(
+      client,
+      `${instanceUrl}/databases`,
+      { method: "POST", body: JSON.stringify({ name, instance: instance.name }) },
+      `create database ${name}`
+    );
+  }
+
+  const password = settingPassword ? generatePassword() : undefined;
+  if (!user) {
+    await runSqlOperation(
+      client,
+      `${instanceUrl}/users`,
+      { method: "POST", body: JSON.stringify({ name, password }) },
+      `create user ${name}`
+    );
+  } else if (rotatePassword) {
+    await runSqlOperation(
+      client,
+      `${instanceUrl}/users?${new URLSearchParams({ name })}`,
+      { method: "PUT", body: JSON.stringify({ name, password }) },
+      `set the password of user ${name}`
+    );
+  }
+
+  const result: AppDatabase = {
+    app,
+    instance: instance.name,
+    connectionName: instance.connectionName,
+    host,
+    port: POSTGRES_PORT,
+    database: name,
+    user: name,
+    created: { database: !database, user: !user },
+    passwordSet: password !== undefined,
+  };
+
+  if (!writeSecret) {
+    if (password !== undefined) {
+      result.password = password;
+    }
+    return result;
+  }
+
+  if (password === undefined) {
+    // The existing password is unknown, so the secret can only be checked
+    const secrets = await listAppSecrets(client, app, namespace);
+    const present = !!secrets.find((secret) => secret.name === secretName)?.keys.some((key) => key.key === secretKey);
+    result.secret = { name: secretName, key: secretKey, written: false, present };
+    return result;
+  }
+
+  const url = `postgresql://${name}:${password}@${host}:${POSTGRES_PORT}/${name}`;
+  const update = await setAppSecretKeys(client, app, secretName, { [secretKey]: url }, namespace, restart);
+  result.secret = {
+    name: secretName,
+    key: secretKey,
+    written: true,
+    present: true,
+    ...(update.rollout && { rollout: update.rollout }),
+    ...(update.restartError && { restartError: update.restartError }),
+  };
+  return result;
+}
+
+/**
+ * Drop an app's database and user, and remove its DATABASE_URL from the
+ * app's secret. Anything already gone is skipped.
+ */
+export async function teardownAppDatabase(
+  client: GCPClient,
+  app: string,
+  options: Pick<ProvisionOptions, "namespace" | "secretName" | "secretKey"> & { removeSecretKey?: boolean } = {}
+): Promise<AppDatabaseTeardown> {
+  const { namespace = "apps", secretName = `${app}-secrets`, secretKey = "DATABASE_URL", removeSecretKey = true } = options;
+  const name = databaseName(app);
+
+  const instance = await getInstance(client);
+  const instanceUrl = `${SQL_ADMIN_API}/projects/${client.projectId}/instances/${instance.name}`;
+
+  // Drop the database first, so the user no longer owns anything in it
+  const database = await findSqlResource(client, `${instanceUrl}/databases/${name}`, `database ${name}`);
+  if (database) {
+    await runSqlOperation(client, `${instanceUrl}/databases/${name}`, { method: "DELETE" }, `delete database ${name}`);
+  }
+
+  const user = await findSqlResource(client, `${instanceUrl}/users/${name}`, `user ${name}`);
+  if (user) {
+    await runSqlOperation(
+      client,
+      `${instanceUrl}/users?${new URLSearchParams({ name })}`,
+      { method: "DELETE" },
+      `delete user ${name}`
+    );
+  }
+
+  let secretKeyRemoved = false;
+  if (removeSecretKey) {
+    try {
+      const update = await deleteAppSecretKeys(client, app, secretName, [secretKey], namespace);
+      secretKeyRemoved = update.changedKeys.length > 0;
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    app,
+    instance: instance.name,
+    database: name,
+    user: name,
+    deleted: { database: !!database, user: !!user },
+    secretKeyRemoved,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Consent screen, remembered approvals and the /clients admin page
+ *
+ * Approvals are stored in OAUTH_KV under approval:{userId}:{clientId}, so a
+ * user is only asked once per client until the approval is revoked.
+ */
+
+export interface Approval {
+  userId: string;
+  clientId: string;
+  email: string;
+  clientName?: string;
+  approvedAt: string;
+}
+
+export interface ConsentDetails {
+  consentId: string;
+  clientName: string;
+  clientId: string;
+  redirectUris: string[];
+  scope: string[];
+  email: string;
+  role: string;
+}
+
+export interface ClientsPageData {
+  email: string;
+  csrfToken: string;
+  clients: { clientId: string; clientName?: string; redirectUris: string[]; registrationDate?: number }[];
+  approvals: Approval[];
+  grants: { id: string; clientId: string; userId: string; email?: string; scope: string[]; createdAt: number }[];
+}
+
+function approvalKey(userId: string, clientId: string): string {
+  return `approval:${userId}:${clientId}`;
+}
+
+/**
+ * Look up whether a user has already approved a client
+ */
+export async function getApproval(kv: KVNamespace, userId: string, clientId: string): Promise<Approval | null> {
+  const stored = await kv.get(approvalKey(userId, clientId));
+  return stored ? JSON.parse(stored) as Approval : null;
+}
+
+/**
+ * Remember that a user approved a client
+ */
+export async function saveApproval(kv: KVNamespace, approval: Approval): Promise<void> {
+  await kv.put(approvalKey(approval.userId, approval.clientId), JSON.stringify(approval));
+}
+
+/**
+ * List every remembered approval
+ */
+export async function listApprovals(kv: KVNamespace): Promise<Approval[]> {
+  const approvals: Approval[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: "approval:", cursor });
+    for (const key of page.keys) {
+      const stored = await kv.get(key.name);
+      if (stored) {
+        approvals.push(JSON.parse(stored) as Approval);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return approvals;
+}
+
+/**
+ * Forget approvals, either one user's approval of a client or every user's
+ */
+export async function deleteApprovals(kv: KVNamespace, clientId: string, userId?: string): Promise<void> {
+  if (userId) {
+    await kv.delete(approvalKey(userId, clientId));
+    return;
+  }
+
+  for (const approval of await listApprovals(kv)) {
+    if (approval.clientId === clientId) {
+      await kv.delete(approvalKey(approval.userId, clientId));
+    }
+  }
+}
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PAGE_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 16px; color: #1f2933; }
+  h1 { font-size: 1.4rem; }
+  code { background: #f1f3f5; padding: 1px 4px; border-radius: 3px; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e7eb; vertical-align: top; font-size: 0.9rem; }
+  button { padding: 8px 16px; border-radius: 4px; border: 1px solid #9aa5b1; background: #fff; cursor: pointer; }
+  button.primary { background: #2563eb; border-color: #2563eb; color: #fff; }
+  .warning { background: #fff7e6; border: 1px solid #f0b429; padding: 8px 12px; border-radius: 4px; }
+`;
+
+function page(title: string, body: string): Response {
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>${PAGE_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`,
+    {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'",
+        "X-Frame-Options": "DENY",
+      },
+    }
+  );
+}
+
+/**
+ * Render the consent screen shown before a client is first granted access
+ */
+export function renderConsentPage(details: ConsentDetails): Response {
+  const redirectUris = details.redirectUris.map((uri) => `<li><code>${escapeHtml(uri)}</code></li>`).join("");
+  const scope = details.scope.length > 0 ? escapeHtml(details.scope.join(" ")) : "(none requested)";
+
+  return page(
+    "Authorize MCP client",
+    `<h1>Authorize <strong>${escapeHtml(details.clientName)}</strong>?</h1>
+<p>This client wants to use the Tech Island MCP server as <strong>${escapeHtml(details.email)}</strong>
+(role: <code>${escapeHtml(details.role)}</code>), which gives it access to the cluster tools for that role.</p>
+<p class="warning">Only approve clients you registered yourself. Anyone can register a client.</p>
+<table>
+  <tr><th>Client ID</th><td><code>${escapeHtml(details.clientId)}</code></td></tr>
+  <tr><th>Redirect URIs</th><td><ul>${redirectUris}</ul></td></tr>
+  <tr><th>Requested scope</th><td>${scope}</td></tr>
+</table>
+<form method="post" action="/consent">
+  <input type="hidden" name="consent_id" value="${escapeHtml(details.consentId)}">
+  <button class="primary" type="submit" name="action" value="approve">Approve</button>
+  <button type="submit" name="action" value="deny">Deny</button>
+</form>`
+  );
+}
+
+/**
+ * Render the admin page listing registered clients, approvals and grants
+ */
+export function renderClientsPage(data: ClientsPageData): Response {
+  const csrf = `<input type="hidden" name="csrf_token" value="${escapeHtml(data.csrfToken)}">`;
+  const formatDate = (ms?: number) => (ms ? new Date(ms).toISOString() : "");
+
+  const clientRows = data.clients.map((client) => `<tr>
+  <td>${escapeHtml(client.clientName || "(unnamed)")}<br><code>${escapeHtml(client.clientId)}</code></td>
+  <td>${client.redirectUris.map((uri) => `<code>${escapeHtml(uri)}</code>`).join("<br>")}</td>
+  <td>${formatDate(client.registrationDate ? client.registrationDate * 1000 : undefined)}</td>
+  <td><form method="post" action="/clients/revoke-client">${csrf}
+    <input type="hidden" name="client_id" value="${escapeHtml(client.clientId)}">
+    <button type="submit">Delete client</button></form></td>
+</tr>`).join("");
+
+  const grantRows = data.grants.map((grant) => `<tr>
+  <td>${escapeHtml(grant.email || grant.userId)}</td>
+  <td><code>${escapeHtml(grant.clientId)}</code></td>
+  <td>${escapeHtml(grant.scope.join(" "))}</td>
+  <td>${formatDate(grant.createdAt * 1000)}</td>
+  <td><form method="post" action="/clients/revoke-grant">${csrf}
+    <input type="hidden" name="grant_id" value="${escapeHtml(grant.id)}">
+    <input type="hidden" name="user_id" value="${escapeHtml(grant.userId)}">
+    <input type="hidden" name="client_id" value="${escapeHtml(grant.clientId)}">
+    <button type="submit">Revoke</button></form></td>
+</tr>`).join("");
+
+  const approvalRows = data.approvals.map((approval) => `<tr>
+  <td>${escapeHtml(approval.email)}</td>
+  <td>${escapeHtml(approval.clientName || "")}<br><code>${escapeHtml(approval.clientId)}</code></td>
+  <td>${escapeHtml(approval.approvedAt)}</td>
+</tr>`).join("");
+
+  return page(
+    "MCP clients",
+    `<h1>MCP clients</h1>
+<p>Signed in as <strong>${escapeHtml(data.email)}</strong>.</p>
+<h2>Registered clients</h2>
+<table><tr><th>Client</th><th>Redirect URIs</th><th>Registered</th><th></th></tr>${clientRows}</table>
+<h2>Issued grants</h2>
+<table><tr><th>User</th><th>Client</th><th>Scope</th><th>Created</th><th></th></tr>${grantRows}</table>
+<h2>Remembered approvals</h2>
+<table><tr><th>User</th><th>Client</th><th>Approved</th></tr>${approvalRows}</table>`
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Named GCP environments
+ *
+ * GCP_ENVIRONMENTS maps environment names to the project, cluster and
+ * credentials the GCP tools use, so one server can reach e.g. staging and
+ * production. Every GCP tool takes an optional environment argument, and an
+ * environment can demand a higher role than the tool itself does.
+ *
+ * Example:
+ *   {
+ *     "default": "staging",
+ *     "environments": {
+ *       "staging": { "clusterName": "tech-island-staging" },
+ *       "production": {
+ *         "projectId": "tech-island-prod",
+ *         "serviceAccountKeySecret": "GCP_PRODUCTION_SERVICE_ACCOUNT_KEY",
+ *         "roles": { "write": "admin" }
+ *       }
+ *     }
+ *   }
+ *
+ * Fields an environment leaves out fall back to the single-environment vars
+ * (GCP_PROJECT_ID, GCP_CLUSTER_NAME, GCP_REGION, ...). Without
+ * GCP_ENVIRONMENTS those vars describe one environment named "default".
+ */
+
+import { z } from "zod";
+import { roleAllows, type Role } from "./access-policy";
+import type { GCPClient, GCPConfig } from "./gcp-tools";
+
+export const DEFAULT_ENVIRONMENT = "default";
+
+// Worker secret holding an environment's key unless it names another one
+const DEFAULT_KEY_SECRET = "GCP_SERVICE_ACCOUNT_KEY";
+
+export interface EnvironmentRoles {
+  read?: Role; // Minimum role for any GCP tool in the environment (default: viewer)
+  write?: Role; // Minimum role for write tools in the environment (default: the tool's own role)
+}
+
+export interface GCPEnvironment {
+  name: string;
+  config: GCPConfig;
+  roles: EnvironmentRoles;
+}
+
+export interface GCPEnvironments {
+  defaultEnvironment: string;
+  environments: GCPEnvironment[];
+}
+
+const ROLE = z.enum(["viewer", "operator", "admin"]);
+
+// Strict, so a misspelt "roles" can't silently leave production open
+const ENVIRONMENT_SPEC = z
+  .object({
+    projectId: z.string().optional(),
+    clusterName: z.string().optional(),
+    region: z.string().optional(),
+    serviceAccountKeySecret: z.string().optional(),
+    kubeApiProxyUrl: z.string().url().optional(),
+    allowUnpinnedTls: z.boolean().optional(),
+    writableNamespaces: z.array(z.string()).optional(),
+    cloudSqlInstance: z.string().optional(),
+    artifactRegistryRepository: z.string().optional(),
+    roles: z.object({ read: ROLE.optional(), write: ROLE.optional() }).strict().optional(),
+  })
+  .strict();
+
+const ENVIRONMENTS_SPEC = z
+  .object({
+    default: z.string().optional(),
+    environments: z.record(z.string().regex(/^[a-z][a-z0-9-]*$/, "Environment names must be lowercase letters, digits and hyphens"), ENVIRONMENT_SPEC),
+  })
+  .strict();
+
+/**
+ * The higher of two roles
+ */
+function higherRole(a: Role, b: Role): Role {
+  return roleAllows(a, b) ? a : b;
+}
+
+/**
+ * Load the GCP environments from GCP_ENVIRONMENTS, or the single environment
+ * described by GCP_SERVICE_ACCOUNT_KEY and friends. Returns null when no GCP
+ * credentials are configured at all.
+ */
+export function loadEnvironments(vars: Record<string, unknown>): GCPEnvironments | null {
+  const get = (name: string) => (typeof vars[name] === "string" ? (vars[name] as string) : undefined);
+
+  const base = {
+    projectId: get("GCP_PROJECT_ID") || "", // Will use project from service account key if empty
+    clusterName: get("GCP_CLUSTER_NAME") || "tech-island",
+    region: get("GCP_REGION") || "europe-west2",
+    kubeApiProxyUrl: get("GKE_API_PROXY_URL"),
+    allowUnpinnedTls: get("GKE_ALLOW_UNPINNED_TLS") === "true",
+    writableNamespaces: get("GKE_WRITABLE_NAMESPACES")?.split(",").map((ns) => ns.trim()).filter(Boolean),
+    cloudSqlInstance: get("CLOUDSQL_INSTANCE"),
+    artifactRegistryRepository: get("ARTIFACT_REGISTRY_REPOSITORY"),
+  };
+
+  const json = get("GCP_ENVIRONMENTS");
+  if (!json) {
+    const serviceAccountKey = get(DEFAULT_KEY_SECRET);
+    return serviceAccountKey
+      ? { defaultEnvironment: DEFAULT_ENVIRONMENT, environments: [{ name: DEFAULT_ENVIRONMENT, config: { ...base, serviceAccountKey }, roles: {} }] }
+      : null;
+  }
+
+  const parsed = ENVIRONMENTS_SPEC.safeParse(JSON.parse(json));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid GCP_ENVIRONMENTS: ${issues.join("; ")}`);
+  }
+
+  const environments = Object.entries(parsed.data.environments).map(([name, spec]): GCPEnvironment => {
+    const { serviceAccountKeySecret = DEFAULT_KEY_SECRET, roles = {}, ...overrides } = spec;
+    const serviceAccountKey = get(serviceAccountKeySecret);
+    if (!serviceAccountKey) {
+      throw new Error(`GCP environment "${name}" needs its service account key in the ${serviceAccountKeySecret} secret`);
+    }
+    return { name, config: { ...base, ...overrides, serviceAccountKey }, roles };
+  });
+
+  if (environments.length === 0) {
+    throw new Error("Invalid GCP_ENVIRONMENTS: no environments defined");
+  }
+  const defaultEnvironment = parsed.data.default ?? environments[0].name;
+  if (!environments.some((environment) => environment.name === defaultEnvironment)) {
+    throw new Error(`Invalid GCP_ENVIRONMENTS: default environment "${defaultEnvironment}" is not defined`);
+  }
+
+  return { defaultEnvironment, environments };
+}
+
+/**
+ * The role needed to run a tool in an environment: its read role, and for
+ * write tools (those with a requiredRole) also the tool's and the
+ * environment's write role
+ */
+export function environmentRole(environment: GCPEnvironment, toolRole?: Role): Role {
+  const read = environment.roles.read ?? "viewer";
+  if (!toolRole) {
+    return read;
+  }
+  return higherRole(higherRole(read, toolRole), environment.roles.write ?? toolRole);
+}
+
+/**
+ * The client for an environment (the default one unless named), or null when
+ * the session's role doesn't meet the environment's read role. For reads
+ * that don't go through the tools, such as resources and prompts.
+ */
+export function readableClient(
+  gcp: GCPEnvironments,
+  clients: Map<string, GCPClient>,
+  role: Role | undefined,
+  name: string = gcp.defaultEnvironment
+): GCPClient | null {
+  const environment = gcp.environments.find((candidate) => candidate.name === name);
+  return environment && roleAllows(role, environmentRole(environment)) ? clients.get(name) ?? null : null;
+}
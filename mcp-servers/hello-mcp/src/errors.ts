@@ -0,0 +1,101 @@
+/**
+ * Typed errors for MCP tools
+ *
+ * Tool implementations throw these so the tool registry can report a
+ * consistent error code alongside the message.
+ */
+
+export class ToolError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code: string = "internal") {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+  }
+}
+
+/**
+ * Credentials were missing, expired or rejected
+ */
+export class AuthError extends ToolError {
+  constructor(message: string) {
+    super(message, "unauthenticated");
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * The caller isn't allowed to do this
+ */
+export class ForbiddenError extends ToolError {
+  constructor(message: string) {
+    super(message, "forbidden");
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The requested resource doesn't exist
+ */
+export class NotFoundError extends ToolError {
+  constructor(message: string) {
+    super(message, "not_found");
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * The target isn't in a state that allows the operation
+ */
+export class PreconditionError extends ToolError {
+  constructor(message: string) {
+    super(message, "failed_precondition");
+    this.name = "PreconditionError";
+  }
+}
+
+/**
+ * An upstream API (or the tool as a whole) took too long
+ */
+export class UpstreamTimeoutError extends ToolError {
+  constructor(message: string) {
+    super(message, "upstream_timeout");
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * An upstream API returned an unexpected error
+ */
+export class UpstreamError extends ToolError {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message, "upstream_error");
+    this.name = "UpstreamError";
+    this.status = status;
+  }
+}
+
+/**
+ * Build the typed error for a failed upstream response, as
+ * "<description>: <response body>"
+ */
+export async function upstreamError(response: Response, description: string): Promise<ToolError> {
+  const message = `${description}: ${await response.text()}`;
+
+  switch (response.status) {
+    case 401:
+      return new AuthError(message);
+    case 403:
+      return new ForbiddenError(message);
+    case 404:
+      return new NotFoundError(message);
+    case 408:
+    case 504:
+      return new UpstreamTimeoutError(message);
+    default:
+      return new UpstreamError(message, response.status);
+  }
+}
@@ -4,11 +4,20 @@
  * Uses direct REST API calls instead of SDKs to work with Cloudflare Workers
  */
 
+import { upstreamError, ForbiddenError, NotFoundError } from "./errors";
+import { parseCertificateValidity } from "./x509";
+
 export interface GCPConfig {
   projectId: string;
   clusterName: string;
   region: string;
   serviceAccountKey: string; // JSON key as string
+  kubeApiProxyUrl?: string; // Gateway that forwards Kubernetes calls and verifies the cluster CA
+  allowUnpinnedTls?: boolean; // Call the raw endpoint trusting the runtime's CA store instead
+  writableNamespaces?: string[]; // Namespaces write tools may modify (default: ["apps"])
+  cloudSqlInstance?: string; // Instance for app databases (default: the project's only instance)
+  artifactRegistryRepository?: string; // Docker repository apps are pushed to (default: <clusterName>-containers)
+  fetch?: typeof fetch; // Used for every outbound request (default: the global fetch); tests inject fakes here
 }
 
 interface ServiceAccountCredentials {
@@ -17,11 +26,143 @@ interface ServiceAccountCredentials {
   project_id: string;
 }
 
+/**
+ * Cached OAuth access token for the service account
+ */
+interface CachedToken {
+  value: string;
+  expiresAt: number; // epoch milliseconds
+}
+
+/**
+ * GKE cluster connection details
+ */
+export interface ClusterInfo {
+  endpoint: string;
+  caCertificate: string; // base64-encoded PEM, as returned by the GKE API
+}
+
+// Refresh tokens this long before Google says they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Authenticated client shared by all GCP/GKE tools
+ *
+ * Caches the service account access token until shortly before it expires
+ * and the cluster endpoint/CA certificate for the lifetime of the client, so
+ * chained tool calls don't re-mint tokens or re-fetch the cluster each time.
+ */
+export class GCPClient {
+  readonly config: GCPConfig;
+  readonly projectId: string;
+  private credentials: ServiceAccountCredentials;
+  private token: CachedToken | null = null;
+  private pendingToken: Promise<CachedToken> | null = null;
+  private cluster: Promise<ClusterInfo> | null = null;
+
+  constructor(config: GCPConfig) {
+    this.config = config;
+    this.credentials = JSON.parse(config.serviceAccountKey) as ServiceAccountCredentials;
+    // Use project ID from credentials if not provided in config
+    this.projectId = config.projectId || this.credentials.project_id;
+  }
+
+  /**
+   * Get a valid access token, minting a new one only when the cached one is
+   * missing, about to expire, or forceRefresh is set
+   */
+  async getAccessToken(forceRefresh: boolean = false): Promise<string> {
+    if (!forceRefresh && this.token && this.token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.token.value;
+    }
+
+    // Share a single in-flight token request between concurrent callers
+    if (!this.pendingToken) {
+      this.pendingToken = getAccessToken(this.credentials, this.config.fetch ?? fetch).finally(() => {
+        this.pendingToken = null;
+      });
+    }
+
+    this.token = await this.pendingToken;
+    return this.token.value;
+  }
+
+  /**
+   * Get the cluster endpoint and CA certificate, fetched once per client
+   */
+  async getCluster(): Promise<ClusterInfo> {
+    if (!this.cluster) {
+      this.cluster = getCluster(this).catch((error) => {
+        // Don't cache failures
+        this.cluster = null;
+        throw error;
+      });
+    }
+    return this.cluster;
+  }
+
+  /**
+   * fetch() with the access token attached. Retries once with a freshly
+   * minted token if the API responds with 401.
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = async (accessToken: string) => {
+      const headers = new Headers(init.headers);
+      headers.set("Authorization", `Bearer ${accessToken}`);
+      return (this.config.fetch ?? fetch)(url, { ...init, headers });
+    };
+
+    const response = await send(await this.getAccessToken());
+    if (response.status !== 401) {
+      return response;
+    }
+
+    return send(await this.getAccessToken(true));
+  }
+
+  /**
+   * Authenticated request against the Kubernetes API server
+   *
+   * The Workers runtime can't pin fetch() to a custom CA, so by default calls
+   * go through the configured gateway, which is handed the cluster endpoint
+   * and CA from getCluster and verifies the API server against it. Calling
+   * the raw endpoint requires explicitly opting out of pinning.
+   */
+  async kubeFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const cluster = await this.getCluster();
+
+    if (this.config.kubeApiProxyUrl) {
+      const headers = new Headers(init.headers);
+      headers.set("X-Kube-Endpoint", cluster.endpoint);
+      headers.set("X-Kube-CA-Certificate", cluster.caCertificate);
+      const proxyUrl = this.config.kubeApiProxyUrl.replace(/\/+$/, "");
+      return this.fetch(`${proxyUrl}${path}`, { ...init, headers });
+    }
+
+    if (!this.config.allowUnpinnedTls) {
+      throw new Error(
+        `Refusing to call GKE API server at ${cluster.endpoint}: the Workers runtime cannot pin TLS trust to the cluster CA. ` +
+          "Set GKE_API_PROXY_URL to route Kubernetes calls through a gateway that verifies the cluster CA, " +
+          "or set GKE_ALLOW_UNPINNED_TLS=true to trust the runtime's CA store."
+      );
+    }
+
+    try {
+      return await this.fetch(`https://${cluster.endpoint}${path}`, init);
+    } catch (error: any) {
+      throw new Error(
+        `TLS connection to GKE API server at ${cluster.endpoint} failed (${error.message}). ` +
+          "The cluster certificate is signed by the cluster CA, which the Workers runtime does not trust; set GKE_API_PROXY_URL to use a gateway instead."
+      );
+    }
+  }
+}
+
 /**
  * Get an access token using service account credentials
  * Uses JWT signing and OAuth 2.0 flow
  */
-async function getAccessToken(credentials: ServiceAccountCredentials): Promise<string> {
+async function getAccessToken(credentials: ServiceAccountCredentials, fetchImpl: typeof fetch): Promise<CachedToken> {
   const now = Math.floor(Date.now() / 1000);
   const expiry = now + 3600; // 1 hour
 
@@ -49,7 +190,7 @@ async function getAccessToken(credentials: ServiceAccountCredentials): Promise<s
   const jwt = `${signatureInput}.${signature}`;
 
   // Exchange JWT for access token
-  const response = await fetch("https://oauth2.googleapis.com/token", {
+  const response = await fetchImpl("https://oauth2.googleapis.com/token", {
     method: "POST",
     headers: { "Content-Type": "application/x-www-form-urlencoded" },
     body: new URLSearchParams({
@@ -59,12 +200,14 @@ async function getAccessToken(credentials: ServiceAccountCredentials): Promise<s
   });
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get access token: ${error}`);
+    throw await upstreamError(response, `Failed to get access token`);
   }
 
-  const data = await response.json() as { access_token: string };
-  return data.access_token;
+  const data = await response.json() as { access_token: string; expires_in?: number };
+  return {
+    value: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  };
 }
 
 /**
@@ -125,118 +268,403 @@ function base64UrlEncode(data: string | ArrayBuffer): string {
 /**
  * Get cluster endpoint and CA certificate
  */
-async function getCluster(config: GCPConfig, accessToken: string) {
-  const url = `https://container.googleapis.com/v1/projects/${config.projectId}/locations/${config.region}/clusters/${config.clusterName}`;
+async function getCluster(client: GCPClient): Promise<ClusterInfo> {
+  const { region, clusterName } = client.config;
+  const url = `https://container.googleapis.com/v1/projects/${client.projectId}/locations/${region}/clusters/${clusterName}`;
 
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  const response = await client.fetch(url);
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get cluster: ${error}`);
+    throw await upstreamError(response, `Failed to get cluster`);
+  }
+
+  const cluster = await response.json() as any;
+  const caCertificate = cluster.masterAuth?.clusterCaCertificate;
+  if (!isPemCertificate(caCertificate)) {
+    throw new Error(`Cluster ${clusterName} did not return a valid CA certificate; cannot verify the API server's TLS certificate`);
   }
 
-  const cluster = await response.json();
   return {
     endpoint: cluster.endpoint,
-    caCertificate: cluster.masterAuth?.clusterCaCertificate,
+    caCertificate,
   };
 }
 
 /**
- * List pods in a namespace
+ * Check that a base64-encoded value decodes to a PEM certificate
  */
-export async function listPods(
-  config: GCPConfig,
-  namespace: string = "apps",
-  labelSelector?: string
-): Promise<any> {
-  const credentials = JSON.parse(config.serviceAccountKey) as ServiceAccountCredentials;
-  const accessToken = await getAccessToken(credentials);
-
-  // Use project ID from credentials if not provided in config
-  const projectId = config.projectId || credentials.project_id;
-  const cluster = await getCluster({ ...config, projectId }, accessToken);
+function isPemCertificate(value: unknown): value is string {
+  if (typeof value !== "string" || !value) {
+    return false;
+  }
+  try {
+    return atob(value).includes("-----BEGIN CERTIFICATE-----");
+  } catch {
+    return false;
+  }
+}
 
-  const url = new URL(`https://${cluster.endpoint}/api/v1/namespaces/${namespace}/pods`);
+/**
+ * Fetch raw pod objects in a namespace
+ */
+async function fetchPods(client: GCPClient, namespace: string, labelSelector?: string): Promise<any[]> {
+  const params = new URLSearchParams();
   if (labelSelector) {
-    url.searchParams.set("labelSelector", labelSelector);
+    params.set("labelSelector", labelSelector);
   }
 
-  const response = await fetch(url.toString(), {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  const response = await client.kubeFetch(`/api/v1/namespaces/${namespace}/pods?${params}`);
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to list pods: ${error}`);
+    throw await upstreamError(response, `Failed to list pods`);
+  }
+
+  const data = await response.json() as any;
+  return data.items;
+}
+
+/**
+ * Build a label selector string from a matchLabels map
+ */
+function matchLabelsSelector(matchLabels: Record<string, string> = {}): string {
+  return Object.entries(matchLabels).map(([key, value]) => `${key}=${value}`).join(",");
+}
+
+/**
+ * Per-container state, covering init containers and sidecars
+ */
+export interface ContainerDiagnostics {
+  name: string;
+  init: boolean;
+  image: string;
+  imageID?: string; // Resolved image, with the digest the node pulled
+  ready: boolean;
+  restarts: number;
+  state: string; // waiting, running, terminated
+  reason?: string;
+  message?: string;
+  startedAt?: string;
+  lastTermination?: { reason?: string; exitCode?: number; finishedAt?: string };
+}
+
+/**
+ * Pod summary in the spirit of `kubectl get pods -o wide`
+ */
+export interface PodDiagnostics {
+  name: string;
+  namespace: string;
+  status: string; // kubectl STATUS column, e.g. CrashLoopBackOff, Init:0/1, Running
+  phase: string;
+  ready: string; // ready/total regular containers, e.g. "1/2"
+  restarts: number;
+  age: string;
+  createdAt: string;
+  node?: string;
+  podReady: boolean;
+  containers: ContainerDiagnostics[];
+}
+
+/**
+ * Whether a pod's Ready condition is true
+ */
+function isPodReady(pod: any): boolean {
+  return !!pod.status.conditions?.some((c: any) => c.type === "Ready" && c.status === "True");
+}
+
+/**
+ * Human-friendly age like kubectl's AGE column (e.g. 45s, 12m, 3h, 5d)
+ */
+function formatAge(timestamp: string | undefined, now: number = Date.now()): string {
+  if (!timestamp) {
+    return "unknown";
+  }
+
+  const seconds = Math.max(0, Math.floor((now - Date.parse(timestamp)) / 1000));
+  if (seconds < 120) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 120) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) {
+    return `${hours}h`;
+  }
+  return `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Diagnostics for every init and regular container of a pod
+ */
+function podContainers(pod: any): ContainerDiagnostics[] {
+  const describe = (specs: any[] = [], statuses: any[] = [], init: boolean): ContainerDiagnostics[] =>
+    specs.map((spec: any) => {
+      const status = statuses.find((s: any) => s.name === spec.name) || {};
+      const [state, detail] = (Object.entries(status.state || {})[0] || ["waiting", {}]) as [string, any];
+      const lastTerminated = status.lastState?.terminated;
+      return {
+        name: spec.name,
+        init,
+        image: status.image || spec.image,
+        imageID: status.imageID || undefined,
+        ready: !!status.ready,
+        restarts: status.restartCount || 0,
+        state,
+        reason: detail.reason,
+        message: detail.message,
+        startedAt: detail.startedAt,
+        lastTermination: lastTerminated
+          ? { reason: lastTerminated.reason, exitCode: lastTerminated.exitCode, finishedAt: lastTerminated.finishedAt }
+          : undefined,
+      };
+    });
+
+  return [
+    ...describe(pod.spec.initContainers, pod.status.initContainerStatuses, true),
+    ...describe(pod.spec.containers, pod.status.containerStatuses, false),
+  ];
+}
+
+/**
+ * Compute the STATUS column shown by `kubectl get pods`
+ */
+function podStatus(pod: any): string {
+  let reason: string = pod.status.reason || pod.status.phase || "Unknown";
+
+  // Init containers that haven't finished take precedence
+  const initStatuses: any[] = pod.status.initContainerStatuses || [];
+  const initTotal = pod.spec.initContainers?.length || 0;
+  let initializing = false;
+  for (const [i, status] of initStatuses.entries()) {
+    const terminated = status.state?.terminated;
+    const waiting = status.state?.waiting;
+    if (terminated && terminated.exitCode === 0) {
+      continue;
+    }
+    if (terminated) {
+      reason = terminated.reason
+        ? `Init:${terminated.reason}`
+        : terminated.signal ? `Init:Signal:${terminated.signal}` : `Init:ExitCode:${terminated.exitCode}`;
+    } else if (waiting?.reason && waiting.reason !== "PodInitializing") {
+      reason = `Init:${waiting.reason}`;
+    } else {
+      reason = `Init:${i}/${initTotal}`;
+    }
+    initializing = true;
+    break;
+  }
+
+  if (!initializing) {
+    let hasRunning = false;
+    const statuses: any[] = [...(pod.status.containerStatuses || [])].reverse();
+    for (const status of statuses) {
+      const waiting = status.state?.waiting;
+      const terminated = status.state?.terminated;
+      if (waiting?.reason) {
+        reason = waiting.reason;
+      } else if (terminated) {
+        reason = terminated.reason
+          || (terminated.signal ? `Signal:${terminated.signal}` : `ExitCode:${terminated.exitCode}`);
+      } else if (status.ready && status.state?.running) {
+        hasRunning = true;
+      }
+    }
+
+    // Some containers finished but others are still serving
+    if (reason === "Completed" && hasRunning) {
+      reason = isPodReady(pod) ? "Running" : "NotReady";
+    }
+  }
+
+  if (pod.metadata.deletionTimestamp) {
+    reason = pod.status.reason === "NodeLost" ? "Unknown" : "Terminating";
   }
 
-  const data = await response.json();
+  return reason;
+}
+
+/**
+ * List pods in a namespace with per-container diagnostics
+ */
+export async function listPods(
+  client: GCPClient,
+  namespace: string = "apps",
+  labelSelector?: string
+): Promise<{ items: PodDiagnostics[]; total: number }> {
+  const pods = await fetchPods(client, namespace, labelSelector);
 
   return {
-    items: data.items.map((pod: any) => ({
-      name: pod.metadata.name,
-      namespace: pod.metadata.namespace,
-      status: pod.status.phase,
-      restarts: pod.status.containerStatuses?.[0]?.restartCount || 0,
-      age: pod.metadata.creationTimestamp,
-      containers: pod.spec.containers.map((c: any) => c.name),
-    })),
-    total: data.items.length,
+    items: pods.map((pod: any) => {
+      const containers = podContainers(pod);
+      const regular = containers.filter((c) => !c.init);
+      return {
+        name: pod.metadata.name,
+        namespace: pod.metadata.namespace,
+        status: podStatus(pod),
+        phase: pod.status.phase,
+        ready: `${regular.filter((c) => c.ready).length}/${regular.length}`,
+        restarts: containers.reduce((sum, c) => sum + c.restarts, 0),
+        age: formatAge(pod.metadata.creationTimestamp),
+        createdAt: pod.metadata.creationTimestamp,
+        node: pod.spec.nodeName,
+        podReady: isPodReady(pod),
+        containers,
+      };
+    }),
+    total: pods.length,
   };
 }
 
+/**
+ * Options for pod log retrieval, mirroring the Kubernetes log API parameters
+ */
+export interface PodLogOptions {
+  container?: string;
+  tailLines?: number; // Defaults to 100 unless a time window is given
+  previous?: boolean; // Logs from the previous (crashed) container instance
+  sinceSeconds?: number; // At most one of sinceSeconds and sinceTime
+  sinceTime?: string; // RFC 3339 timestamp
+  timestamps?: boolean;
+  limitBytes?: number;
+}
+
+/**
+ * Throw if a log request gives both kinds of time window, which the log API
+ * would reject
+ */
+function assertOneLogWindow(options: PodLogOptions): void {
+  if (options.sinceSeconds && options.sinceTime) {
+    throw new Error("Pass either sinceSeconds or sinceTime, not both");
+  }
+}
+
 /**
  * Get pod logs
  */
 export async function getPodLogs(
-  config: GCPConfig,
+  client: GCPClient,
   podName: string,
   namespace: string = "apps",
-  container?: string,
-  tailLines: number = 100
+  options: PodLogOptions = {}
 ): Promise<string> {
-  const credentials = JSON.parse(config.serviceAccountKey) as ServiceAccountCredentials;
-  const accessToken = await getAccessToken(credentials);
+  assertOneLogWindow(options);
+  const params = new URLSearchParams();
+  const tailLines = options.tailLines ?? (options.sinceSeconds || options.sinceTime ? undefined : 100);
+  if (tailLines !== undefined) {
+    params.set("tailLines", tailLines.toString());
+  }
+  if (options.container) {
+    params.set("container", options.container);
+  }
+  if (options.previous) {
+    params.set("previous", "true");
+  }
+  if (options.sinceSeconds) {
+    params.set("sinceSeconds", options.sinceSeconds.toString());
+  }
+  if (options.sinceTime) {
+    params.set("sinceTime", options.sinceTime);
+  }
+  if (options.timestamps) {
+    params.set("timestamps", "true");
+  }
+  if (options.limitBytes) {
+    params.set("limitBytes", options.limitBytes.toString());
+  }
+
+  const response = await client.kubeFetch(`/api/v1/namespaces/${namespace}/pods/${podName}/log?${params}`);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to get pod logs`);
+  }
 
-  const projectId = config.projectId || credentials.project_id;
-  const cluster = await getCluster({ ...config, projectId }, accessToken);
+  return await response.text();
+}
 
-  const url = new URL(`https://${cluster.endpoint}/api/v1/namespaces/${namespace}/pods/${podName}/log`);
-  url.searchParams.set("tailLines", tailLines.toString());
-  if (container) {
-    url.searchParams.set("container", container);
+/**
+ * Get logs from every pod of an app, merged in timestamp order with each
+ * line prefixed by the pod (and container, when a pod has several) it came from
+ */
+export async function getAppLogs(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps",
+  options: Omit<PodLogOptions, "timestamps"> = {}
+): Promise<string> {
+  assertOneLogWindow(options);
+  const pods = await fetchPods(client, namespace, `app=${app}`);
+  if (pods.length === 0) {
+    throw new NotFoundError(`No pods found with label app=${app} in namespace ${namespace}`);
   }
 
-  const response = await fetch(url.toString(), {
-    headers: { Authorization: `Bearer ${accessToken}` },
+  const sources = pods.flatMap((pod: any) => {
+    const containers: string[] = options.container
+      ? [options.container]
+      : pod.spec.containers.map((c: any) => c.name);
+    return containers.map((container) => ({
+      pod: pod.metadata.name,
+      container,
+      label: containers.length > 1 ? `${pod.metadata.name}/${container}` : pod.metadata.name,
+    }));
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get pod logs: ${error}`);
+  const results = await Promise.all(
+    sources.map(async (source) => {
+      try {
+        const logs = await getPodLogs(client, source.pod, namespace, {
+          ...options,
+          container: source.container,
+          timestamps: true,
+        });
+        return { source, logs };
+      } catch (error: any) {
+        // A previous instance may not exist for every pod; report rather than fail the whole app
+        return { source, logs: `${new Date().toISOString()} <error fetching logs: ${error.message}>`, error };
+      }
+    })
+  );
+
+  // ...unless no pod's logs could be fetched at all
+  const failures = results.filter((result) => result.error);
+  if (failures.length === results.length) {
+    if (failures.length === 1) {
+      throw failures[0].error;
+    }
+    throw new Error(
+      `Failed to get logs from any pod of ${app}: ${failures.map(({ source, error }) => `${source.label}: ${error.message}`).join("; ")}`
+    );
   }
 
-  return await response.text();
+  const lines: { timestamp: string; line: string }[] = [];
+  for (const { source, logs } of results) {
+    for (const raw of logs.split("\n")) {
+      if (!raw) {
+        continue;
+      }
+      // With timestamps=true each line starts with an RFC 3339 timestamp and a space
+      const space = raw.indexOf(" ");
+      const timestamp = space > 0 ? raw.slice(0, space) : "";
+      const text = space > 0 ? raw.slice(space + 1) : raw;
+      lines.push({ timestamp, line: `[${source.label}] ${timestamp} ${text}` });
+    }
+  }
+
+  // Stable sort keeps each pod's own ordering for identical timestamps
+  lines.sort((a, b) => (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0));
+  return lines.map((l) => l.line).join("\n");
 }
 
 /**
  * Describe a Kubernetes resource
  */
 export async function describeResource(
-  config: GCPConfig,
+  client: GCPClient,
   kind: string,
   name: string,
-  namespace: string = "apps"
+  namespace: string = "apps",
+  includeEvents: boolean = false
 ): Promise<any> {
-  const credentials = JSON.parse(config.serviceAccountKey) as ServiceAccountCredentials;
-  const accessToken = await getAccessToken(credentials);
-
-  const projectId = config.projectId || credentials.project_id;
-  const cluster = await getCluster({ ...config, projectId }, accessToken);
-
   const apiPaths: Record<string, string> = {
     pod: `/api/v1/namespaces/${namespace}/pods/${name}`,
     pods: `/api/v1/namespaces/${namespace}/pods/${name}`,
@@ -246,6 +674,11 @@ export async function describeResource(
     services: `/api/v1/namespaces/${namespace}/services/${name}`,
     ingress: `/apis/networking.k8s.io/v1/namespaces/${namespace}/ingresses/${name}`,
     ingresses: `/apis/networking.k8s.io/v1/namespaces/${namespace}/ingresses/${name}`,
+    endpoints: `/api/v1/namespaces/${namespace}/endpoints/${name}`,
+    certificate: `/apis/cert-manager.io/v1/namespaces/${namespace}/certificates/${name}`,
+    certificates: `/apis/cert-manager.io/v1/namespaces/${namespace}/certificates/${name}`,
+    certificaterequest: `/apis/cert-manager.io/v1/namespaces/${namespace}/certificaterequests/${name}`,
+    certificaterequests: `/apis/cert-manager.io/v1/namespaces/${namespace}/certificaterequests/${name}`,
   };
 
   const apiPath = apiPaths[kind.toLowerCase()];
@@ -253,64 +686,1499 @@ export async function describeResource(
     throw new Error(`Unsupported resource kind: ${kind}`);
   }
 
-  const url = `https://${cluster.endpoint}${apiPath}`;
+  const response = await client.kubeFetch(apiPath);
 
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to describe ${kind}/${name}`);
+  }
+
+  const resource = await response.json() as any;
+
+  if (includeEvents) {
+    // Attach related events, the way `kubectl describe` does
+    resource.events = await getEvents(client, namespace, { kind: resource.kind, name });
+  }
+
+  return resource;
+}
+
+/**
+ * Describe an app's Ingress, which is named <app>-oauth2 when it sits behind oauth2-proxy
+ */
+export async function getAppIngress(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps",
+  includeEvents: boolean = false
+): Promise<any> {
+  try {
+    return await describeResource(client, "ingress", app, namespace, includeEvents);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+    return describeResource(client, "ingress", `${app}-oauth2`, namespace, includeEvents);
+  }
+}
+
+// Where the shared oauth2-proxy runs (platform/oauth2-proxy)
+const OAUTH2_PROXY_NAMESPACE = "oauth2-proxy";
+
+// cert-manager renews 30 days before expiry, so a certificate closer than
+// this to expiring means renewal is failing
+const TLS_EXPIRY_WARNING_DAYS = 14;
+
+/**
+ * One link in the chain from the Ingress through TLS and auth to the app's pods
+ */
+export interface ExposureCheck {
+  check: "ingress" | "certificate" | "certificate-request" | "tls-secret" | "oauth2-proxy" | "service-endpoints";
+  target: string;
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Pass/fail checklist for an app's exposure, naming the first broken link
+ */
+export interface AppExposure {
+  app: string;
+  namespace: string;
+  ok: boolean;
+  brokenLink?: string;
+  checks: ExposureCheck[];
+}
+
+type CheckResult = Pick<ExposureCheck, "ok" | "detail">;
+
+/**
+ * List the objects in a Kubernetes collection
+ */
+async function listResources(client: GCPClient, collectionPath: string, labelSelector?: string): Promise<any[]> {
+  const params = new URLSearchParams();
+  if (labelSelector) {
+    params.set("labelSelector", labelSelector);
+  }
+
+  const response = await client.kubeFetch(`${collectionPath}?${params}`);
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to describe ${kind}/${name}: ${error}`);
+    throw await upstreamError(response, `Failed to list ${collectionPath.split("/").pop()}`);
   }
 
-  return await response.json();
+  const data = await response.json() as any;
+  return data.items;
 }
 
 /**
- * Query Cloud Logging using the REST API
+ * Ready condition of a cert-manager resource as a check result
  */
-export async function queryCloudLogs(
-  config: GCPConfig,
-  filter: string,
-  limit: number = 50
-): Promise<any[]> {
-  const credentials = JSON.parse(config.serviceAccountKey) as ServiceAccountCredentials;
-  const accessToken = await getAccessToken(credentials);
+function readyCondition(resource: any): CheckResult {
+  const ready = (resource.status?.conditions || []).find((c: any) => c.type === "Ready");
+  if (!ready) {
+    return { ok: false, detail: "No Ready condition yet" };
+  }
+  const reason = ready.reason ? ` (${ready.reason})` : "";
+  return { ok: ready.status === "True", detail: `Ready=${ready.status}${reason}${ready.message ? `: ${ready.message}` : ""}` };
+}
 
-  const projectId = config.projectId || credentials.project_id;
-  const url = `https://logging.googleapis.com/v2/entries:list`;
+/**
+ * Whether an Endpoints object has any ready addresses
+ */
+function endpointsReady(endpoints: any): CheckResult {
+  const subsets: any[] = endpoints.subsets || [];
+  const ready = subsets.reduce((count, subset) => count + (subset.addresses?.length || 0), 0);
+  const notReady = subsets.reduce((count, subset) => count + (subset.notReadyAddresses?.length || 0), 0);
+  return { ok: ready > 0, detail: `${ready} ready address(es), ${notReady} not ready` };
+}
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      resourceNames: [`projects/${projectId}`],
-      filter,
-      pageSize: limit,
-      orderBy: "timestamp desc",
-    }),
-  });
+/**
+ * Expiry of the certificate in a kubernetes.io/tls Secret. Only the
+ * validity period is read; the key and certificate are never returned.
+ */
+async function tlsSecretExpiry(client: GCPClient, name: string, namespace: string): Promise<CheckResult> {
+  const response = await client.kubeFetch(`/api/v1/namespaces/${namespace}/secrets/${name}`);
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to query logs: ${error}`);
+    throw await upstreamError(response, `Failed to get secret ${name}`);
   }
 
-  const data = await response.json();
+  const secret = await response.json() as any;
+  const certificate = secret.data?.["tls.crt"];
+  if (!certificate) {
+    return { ok: false, detail: "Secret has no tls.crt" };
+  }
 
-  if (!data.entries) {
-    return [];
+  const { notAfter } = parseCertificateValidity(atob(certificate));
+  const daysLeft = Math.floor((notAfter.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  if (daysLeft < 0) {
+    return { ok: false, detail: `Certificate expired at ${notAfter.toISOString()}` };
   }
+  return {
+    ok: daysLeft >= TLS_EXPIRY_WARNING_DAYS,
+    detail: `Certificate expires at ${notAfter.toISOString()} (${daysLeft} days)`,
+  };
+}
 
-  return data.entries.map((entry: any) => ({
-    timestamp: entry.timestamp,
-    severity: entry.severity,
-    resource: entry.resource?.type,
-    message: typeof entry.textPayload === "string" ? entry.textPayload : JSON.stringify(entry.jsonPayload || entry.protoPayload),
-    labels: entry.labels,
-  }));
+/**
+ * Check every link between the internet and an app's pods: its Ingresses,
+ * the cert-manager Certificates and CertificateRequests behind their TLS
+ * secrets, the secrets' expiry, oauth2-proxy when the Ingress authenticates
+ * through it, and the endpoints of the backing Services
+ */
+export async function checkAppExposure(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps"
+): Promise<AppExposure> {
+  const checks: ExposureCheck[] = [];
+
+  // Run one check, recording a lookup failure as a failed check
+  const check = async (name: ExposureCheck["check"], target: string, run: () => Promise<CheckResult>) => {
+    try {
+      checks.push({ check: name, target, ...(await run()) });
+    } catch (error: any) {
+      checks.push({ check: name, target, ok: false, detail: error.message });
+    }
+  };
+
+  const ingresses = await listResources(client, `/apis/networking.k8s.io/v1/namespaces/${namespace}/ingresses`, `app=${app}`);
+  if (ingresses.length === 0) {
+    checks.push({ check: "ingress", target: `Ingress ${namespace}/${app}`, ok: false, detail: `No Ingress labelled app=${app}` });
+  }
+
+  const tlsSecrets = new Set<string>();
+  const backends = new Set<string>();
+  let usesOAuth2Proxy = false;
+
+  for (const ingress of ingresses) {
+    const rules: any[] = ingress.spec.rules || [];
+    const hosts = rules.map((rule) => rule.host).filter(Boolean);
+    const addresses = (ingress.status?.loadBalancer?.ingress || []).map((lb: any) => lb.ip || lb.hostname);
+    const tls: any[] = ingress.spec.tls || [];
+
+    const problems = [
+      hosts.length === 0 && "no host rules",
+      tls.length === 0 && "no TLS",
+      addresses.length === 0 && "no load balancer address",
+    ].filter(Boolean);
+    checks.push({
+      check: "ingress",
+      target: `Ingress ${namespace}/${ingress.metadata.name}`,
+      ok: problems.length === 0,
+      detail: `${problems.length > 0 ? `${problems.join(", ")}; ` : ""}hosts: ${hosts.join(", ") || "none"}, address: ${addresses.join(", ") || "none"}`,
+    });
+
+    tls.forEach((entry) => entry.secretName && tlsSecrets.add(entry.secretName));
+    const paths = rules.flatMap((rule) => rule.http?.paths || []);
+    for (const backend of [...paths.map((path) => path.backend), ingress.spec.defaultBackend]) {
+      if (backend?.service?.name) {
+        backends.add(backend.service.name);
+      }
+    }
+    usesOAuth2Proxy ||= !!ingress.metadata.annotations?.["nginx.ingress.kubernetes.io/auth-url"];
+  }
+  if (ingresses.length === 0) {
+    backends.add(app);
+  }
+
+  // cert-manager's ingress-shim names each Certificate after its secret
+  for (const secretName of tlsSecrets) {
+    let certificateReady = false;
+    await check("certificate", `Certificate ${namespace}/${secretName}`, async () => {
+      try {
+        const result = readyCondition(await describeResource(client, "certificate", secretName, namespace));
+        certificateReady = result.ok;
+        return result;
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return { ok: false, detail: "No Certificate; is the cert-manager.io/cluster-issuer annotation set on the Ingress?" };
+        }
+        throw error;
+      }
+    });
+
+    await check("certificate-request", `CertificateRequest for ${namespace}/${secretName}`, async () => {
+      const requests = (await listResources(client, `/apis/cert-manager.io/v1/namespaces/${namespace}/certificaterequests`))
+        .filter((request) => request.metadata.annotations?.["cert-manager.io/certificate-name"] === secretName)
+        .sort((a, b) => (Date.parse(b.metadata.creationTimestamp) || 0) - (Date.parse(a.metadata.creationTimestamp) || 0));
+      if (requests.length === 0) {
+        // Old requests may have been cleaned up once the Certificate was issued
+        return { ok: certificateReady, detail: "No CertificateRequest found" };
+      }
+      const { ok, detail } = readyCondition(requests[0]);
+      return { ok, detail: `${requests[0].metadata.name}: ${detail}` };
+    });
+
+    await check("tls-secret", `Secret ${namespace}/${secretName}`, () => tlsSecretExpiry(client, secretName, namespace));
+  }
+
+  if (usesOAuth2Proxy) {
+    await check("oauth2-proxy", `Endpoints ${OAUTH2_PROXY_NAMESPACE}/oauth2-proxy`, async () =>
+      endpointsReady(await describeResource(client, "endpoints", "oauth2-proxy", OAUTH2_PROXY_NAMESPACE))
+    );
+  }
+
+  for (const backend of backends) {
+    await check("service-endpoints", `Service ${namespace}/${backend}`, async () => {
+      const service = await describeResource(client, "service", backend, namespace);
+      if (service.spec.type === "ExternalName") {
+        // The per-app alias for oauth2-proxy, which has no endpoints of its own
+        return { ok: true, detail: `ExternalName for ${service.spec.externalName}` };
+      }
+      return endpointsReady(await describeResource(client, "endpoints", backend, namespace));
+    });
+  }
+
+  const broken = checks.find((c) => !c.ok);
+  return {
+    app,
+    namespace,
+    ok: !broken,
+    brokenLink: broken && `${broken.target}: ${broken.detail}`,
+    checks,
+  };
+}
+
+/**
+ * Options for an HTTP probe through the Kubernetes service proxy
+ */
+export interface ProbeOptions {
+  path?: string;
+  port?: string; // Service port number or name
+  method?: "GET" | "POST";
+  body?: string;
+  contentType?: string;
+  asUser?: string; // Sent as X-Auth-Request-User, as oauth2-proxy does
+  maxBodyChars?: number;
+}
+
+/**
+ * What came back from a probe
+ */
+export interface ProbeResult {
+  request: string;
+  status: number;
+  statusText: string;
+  latencyMs: number;
+  headers: Record<string, string>;
+  body: string;
+  bodyTruncated: boolean;
+  // Set when the API server answered instead of the app (e.g. no ready endpoints)
+  proxyError?: string;
+}
+
+const DEFAULT_PROBE_BODY_CHARS = 2000;
+
+// Kubernetes name formats: app, Deployment, Secret, Service and namespace
+// names are DNS labels, ports are numbers or IANA-style port names
+export const DNS_LABEL = /^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/;
+const SERVICE_PORT = /^([0-9]{1,5}|[a-z0-9]([-a-z0-9]{0,13}[a-z0-9])?)$/;
+
+/**
+ * Service proxy path for a probe, refusing anything that could resolve
+ * outside the Service's proxy (e.g. "../../secrets", "%2e%2e" or "..%2f"),
+ * since the API server would otherwise serve it with the service account's
+ * permissions
+ */
+function probeProxyPath(service: string, namespace: string, port: string, path: string): string {
+  if (!DNS_LABEL.test(namespace)) {
+    throw new Error(`Invalid namespace "${namespace}"`);
+  }
+  if (!DNS_LABEL.test(service)) {
+    throw new Error(`Invalid service name "${service}"`);
+  }
+  if (!SERVICE_PORT.test(port)) {
+    throw new Error(`Invalid service port "${port}": expected a port number or name`);
+  }
+
+  const relativePath = path.replace(/^\/+/, "");
+  const pathOnly = relativePath.split(/[?#]/)[0];
+  // Check every decoding of the path, in case something along the way decodes it again
+  let decoded = pathOnly;
+  for (;;) {
+    if (decoded.split(/[/\\]/).some((segment) => segment === "." || segment === "..")) {
+      throw new ForbiddenError(`Probe path "${path}" may not contain "." or ".." segments`);
+    }
+    let next: string;
+    try {
+      next = decodeURIComponent(decoded);
+    } catch {
+      throw new Error(`Invalid probe path "${path}": bad percent-encoding`);
+    }
+    if (next === decoded) {
+      break;
+    }
+    decoded = next;
+  }
+
+  const prefix = `/api/v1/namespaces/${namespace}/services/${service}:${port}/proxy/`;
+  const proxyPath = `${prefix}${relativePath}`;
+  if (!new URL(proxyPath, "https://kubernetes.invalid").pathname.startsWith(prefix)) {
+    throw new ForbiddenError(`Probe path "${path}" leaves the service proxy`);
+  }
+  return proxyPath;
+}
+
+/**
+ * Call an app's Service from inside the cluster via the API server's service
+ * proxy, bypassing the Ingress and oauth2-proxy. Non-2xx responses are
+ * returned rather than thrown, since they are what's being probed.
+ */
+export async function probeApp(
+  client: GCPClient,
+  service: string,
+  namespace: string = "apps",
+  options: ProbeOptions = {}
+): Promise<ProbeResult> {
+  const { path = "/health", port = "80", method = "GET", maxBodyChars = DEFAULT_PROBE_BODY_CHARS } = options;
+  const request = `${method} ${service}:${port}/${path.replace(/^\/+/, "")}`;
+
+  const headers = new Headers();
+  if (options.asUser) {
+    headers.set("X-Auth-Request-User", options.asUser);
+  }
+  if (method === "POST" && options.body !== undefined) {
+    headers.set("Content-Type", options.contentType || "application/json");
+  }
+
+  const proxyPath = probeProxyPath(service, namespace, port, path);
+
+  const started = Date.now();
+  const response = await client.kubeFetch(proxyPath, { method, headers, body: method === "POST" ? options.body : undefined });
+  const text = await response.text();
+  const latencyMs = Date.now() - started;
+
+  let proxyError: string | undefined;
+  if (response.headers.get("Content-Type")?.includes("application/json")) {
+    try {
+      const status = JSON.parse(text);
+      if (status.kind === "Status" && status.apiVersion === "v1") {
+        proxyError = status.message;
+      }
+    } catch {
+      // Not JSON after all; it's the app's body either way
+    }
+  }
+
+  return {
+    request,
+    status: response.status,
+    statusText: response.statusText,
+    latencyMs,
+    headers: Object.fromEntries(response.headers),
+    body: text.slice(0, maxBodyChars),
+    bodyTruncated: text.length > maxBodyChars,
+    ...(proxyError !== undefined && { proxyError }),
+  };
+}
+
+/**
+ * A Cloud Logging entry with its structured payload kept intact
+ */
+export interface LogEntry {
+  timestamp: string;
+  severity: string;
+  resource: string;
+  resourceLabels?: Record<string, string>;
+  message: string;
+  payload?: Record<string, unknown>; // jsonPayload/protoPayload fields, not stringified
+  labels?: Record<string, string>;
+}
+
+/**
+ * A page of log entries with a cursor for fetching the next one
+ */
+export interface LogPage {
+  filter: string;
+  entries: LogEntry[];
+  nextPageToken?: string;
+}
+
+// Cloud Logging's maximum page size
+const MAX_LOG_PAGE_SIZE = 1000;
+
+/**
+ * Convert a Cloud Logging API entry into a LogEntry
+ */
+function formatLogEntry(entry: any): LogEntry {
+  const payload = entry.jsonPayload || entry.protoPayload;
+  const message = typeof entry.textPayload === "string"
+    ? entry.textPayload
+    : payload?.message ?? payload?.msg ?? JSON.stringify(payload);
+
+  return {
+    timestamp: entry.timestamp,
+    severity: entry.severity,
+    resource: entry.resource?.type,
+    resourceLabels: entry.resource?.labels,
+    message: typeof message === "string" ? message : JSON.stringify(message),
+    payload,
+    labels: entry.labels,
+  };
+}
+
+/**
+ * Query Cloud Logging using the REST API, following page tokens until
+ * limit entries have been read or maxPages pages have been fetched
+ */
+export async function queryCloudLogs(
+  client: GCPClient,
+  filter: string,
+  limit: number = 50,
+  pageToken?: string,
+  maxPages: number = 5
+): Promise<LogPage> {
+  const url = `https://logging.googleapis.com/v2/entries:list`;
+  const entries: LogEntry[] = [];
+  let nextPageToken = pageToken;
+
+  for (let page = 0; page < maxPages && entries.length < limit; page++) {
+    const response = await client.fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        resourceNames: [`projects/${client.projectId}`],
+        filter,
+        pageSize: Math.min(limit - entries.length, MAX_LOG_PAGE_SIZE),
+        orderBy: "timestamp desc",
+        pageToken: nextPageToken,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await upstreamError(response, `Failed to query logs`);
+    }
+
+    const data = await response.json() as any;
+    entries.push(...(data.entries || []).map(formatLogEntry));
+    nextPageToken = data.nextPageToken;
+
+    if (!nextPageToken) {
+      break;
+    }
+  }
+
+  return { filter, entries, nextPageToken };
+}
+
+/**
+ * Structured Cloud Logging query for app containers
+ */
+export interface AppLogQuery {
+  app?: string; // matches the pod's app label
+  namespace?: string;
+  container?: string;
+  minSeverity?: string; // DEBUG, INFO, NOTICE, WARNING, ERROR, CRITICAL, ALERT, EMERGENCY
+  startTime?: string; // RFC 3339
+  endTime?: string; // RFC 3339
+  sinceMinutes?: number; // alternative to startTime
+  text?: string; // substring to search for in the log message
+  extraFilter?: string; // raw filter clause ANDed with the generated ones
+}
+
+/**
+ * Quote a value for use in a Cloud Logging or Cloud Monitoring filter
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build a valid Cloud Logging filter from structured parameters
+ */
+export function buildLogFilter(client: GCPClient, query: AppLogQuery): string {
+  const clauses = [
+    `resource.type="k8s_container"`,
+    `resource.labels.cluster_name=${quoteFilterValue(client.config.clusterName)}`,
+  ];
+
+  if (query.namespace) {
+    clauses.push(`resource.labels.namespace_name=${quoteFilterValue(query.namespace)}`);
+  }
+  if (query.app) {
+    clauses.push(`labels."k8s-pod/app"=${quoteFilterValue(query.app)}`);
+  }
+  if (query.container) {
+    clauses.push(`resource.labels.container_name=${quoteFilterValue(query.container)}`);
+  }
+  if (query.minSeverity) {
+    clauses.push(`severity>=${query.minSeverity.toUpperCase()}`);
+  }
+
+  const startTime = query.startTime
+    ?? (query.sinceMinutes ? new Date(Date.now() - query.sinceMinutes * 60 * 1000).toISOString() : undefined);
+  if (startTime) {
+    clauses.push(`timestamp>=${quoteFilterValue(startTime)}`);
+  }
+  if (query.endTime) {
+    clauses.push(`timestamp<=${quoteFilterValue(query.endTime)}`);
+  }
+
+  if (query.text) {
+    const text = quoteFilterValue(query.text);
+    clauses.push(`(textPayload:${text} OR jsonPayload.message:${text} OR jsonPayload.msg:${text})`);
+  }
+  if (query.extraFilter) {
+    clauses.push(`(${query.extraFilter})`);
+  }
+
+  return clauses.join(" AND ");
+}
+
+/**
+ * Deployment rollout summary, modelled on `kubectl rollout status`
+ */
+export interface RolloutStatus {
+  name: string;
+  namespace: string;
+  state: "complete" | "progressing" | "failed";
+  message: string;
+  revision?: string;
+  generation: number;
+  observedGeneration: number;
+  replicas: {
+    desired: number;
+    current: number;
+    updated: number;
+    ready: number;
+    available: number;
+    unavailable: number;
+  };
+  conditions: Record<string, { status: string; reason?: string; message?: string; lastUpdateTime?: string }>;
+  failingPods?: FailingPod[];
+}
+
+/**
+ * A pod that isn't ready, with the state of each of its containers
+ */
+export interface FailingPod {
+  name: string;
+  phase: string;
+  status: string;
+  containers: ContainerDiagnostics[];
+}
+
+/**
+ * Throw unless the namespace is one write tools may modify (default: apps)
+ */
+export function assertWritableNamespace(client: GCPClient, namespace: string): void {
+  const allowed = client.config.writableNamespaces ?? ["apps"];
+  if (!allowed.includes(namespace)) {
+    throw new ForbiddenError(`Namespace "${namespace}" is not writable (allowed: ${allowed.join(", ")})`);
+  }
+}
+
+/**
+ * Throw unless a name is a DNS label. Names go straight into API paths, where
+ * "../" or "%2e%2e" would resolve to another object.
+ */
+function assertDnsLabel(value: string, what: string): void {
+  if (!DNS_LABEL.test(value)) {
+    throw new Error(`Invalid ${what} "${value}": expected lowercase letters, digits and '-'`);
+  }
+}
+
+/**
+ * API path of a Deployment
+ */
+function deploymentPath(name: string, namespace: string): string {
+  assertDnsLabel(namespace, "namespace");
+  assertDnsLabel(name, "deployment name");
+  return `/apis/apps/v1/namespaces/${namespace}/deployments/${name}`;
+}
+
+/**
+ * API path of a Secret
+ */
+function secretPath(name: string, namespace: string): string {
+  assertDnsLabel(namespace, "namespace");
+  assertDnsLabel(name, "secret name");
+  return `/api/v1/namespaces/${namespace}/secrets/${name}`;
+}
+
+/**
+ * Fetch a deployment object
+ */
+async function getDeployment(client: GCPClient, name: string, namespace: string): Promise<any> {
+  const response = await client.kubeFetch(deploymentPath(name, namespace));
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to get deployment ${name}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Send a PATCH to the Kubernetes API
+ */
+async function patchResource(
+  client: GCPClient,
+  path: string,
+  contentType: string,
+  patch: unknown,
+  description: string
+): Promise<any> {
+  const response = await client.kubeFetch(path, {
+    method: "PATCH",
+    headers: { "Content-Type": contentType },
+    body: JSON.stringify(patch),
+  });
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to ${description}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Summarise a deployment's rollout progress
+ */
+function summariseRollout(deployment: any): RolloutStatus {
+  const spec = deployment.spec || {};
+  const status = deployment.status || {};
+  const generation = deployment.metadata.generation || 0;
+  const observedGeneration = status.observedGeneration || 0;
+  const desired = spec.replicas ?? 1;
+  const current = status.replicas || 0;
+  const updated = status.updatedReplicas || 0;
+  const ready = status.readyReplicas || 0;
+  const available = status.availableReplicas || 0;
+
+  const conditions: RolloutStatus["conditions"] = {};
+  for (const condition of status.conditions || []) {
+    conditions[condition.type] = {
+      status: condition.status,
+      reason: condition.reason,
+      message: condition.message,
+      lastUpdateTime: condition.lastUpdateTime,
+    };
+  }
+
+  let state: RolloutStatus["state"] = "progressing";
+  let message: string;
+  if (observedGeneration < generation) {
+    message = "Waiting for deployment spec update to be observed";
+  } else if (conditions.Progressing?.reason === "ProgressDeadlineExceeded") {
+    state = "failed";
+    message = `Deployment exceeded its progress deadline: ${conditions.Progressing.message || ""}`.trim();
+  } else if (updated < desired) {
+    message = `Waiting for rollout to finish: ${updated} out of ${desired} new replicas have been updated`;
+  } else if (current > updated) {
+    message = `Waiting for rollout to finish: ${current - updated} old replicas are pending termination`;
+  } else if (available < updated) {
+    message = `Waiting for rollout to finish: ${available} of ${updated} updated replicas are available`;
+  } else {
+    state = "complete";
+    message = "Deployment successfully rolled out";
+  }
+
+  return {
+    name: deployment.metadata.name,
+    namespace: deployment.metadata.namespace,
+    state,
+    message,
+    revision: deployment.metadata.annotations?.["deployment.kubernetes.io/revision"],
+    generation,
+    observedGeneration,
+    replicas: {
+      desired,
+      current,
+      updated,
+      ready,
+      available,
+      unavailable: status.unavailableReplicas || 0,
+    },
+    conditions,
+  };
+}
+
+/**
+ * Trigger a rolling restart by stamping the pod template, like `kubectl rollout restart`
+ */
+export async function restartDeployment(
+  client: GCPClient,
+  name: string,
+  namespace: string = "apps"
+): Promise<RolloutStatus> {
+  assertWritableNamespace(client, namespace);
+
+  const deployment = await patchResource(
+    client,
+    deploymentPath(name, namespace),
+    "application/strategic-merge-patch+json",
+    {
+      spec: {
+        template: {
+          metadata: {
+            annotations: { "kubectl.kubernetes.io/restartedAt": new Date().toISOString() },
+          },
+        },
+      },
+    },
+    `restart deployment ${name}`
+  );
+
+  return summariseRollout(deployment);
+}
+
+/**
+ * Set the replica count of a deployment
+ */
+export async function scaleDeployment(
+  client: GCPClient,
+  name: string,
+  replicas: number,
+  namespace: string = "apps"
+): Promise<RolloutStatus> {
+  assertWritableNamespace(client, namespace);
+
+  await patchResource(
+    client,
+    `${deploymentPath(name, namespace)}/scale`,
+    "application/merge-patch+json",
+    { spec: { replicas } },
+    `scale deployment ${name}`
+  );
+
+  return summariseRollout(await getDeployment(client, name, namespace));
+}
+
+/**
+ * Roll a deployment back to the pod template of an earlier ReplicaSet
+ * revision (the previous one by default), like `kubectl rollout undo`
+ */
+export async function rollbackDeployment(
+  client: GCPClient,
+  name: string,
+  namespace: string = "apps",
+  toRevision?: number
+): Promise<RolloutStatus & { rolledBackTo: number }> {
+  assertWritableNamespace(client, namespace);
+
+  const deployment = await getDeployment(client, name, namespace);
+  const currentRevision = Number(deployment.metadata.annotations?.["deployment.kubernetes.io/revision"] || 0);
+
+  // Find the ReplicaSets owned by this deployment
+  const params = new URLSearchParams({
+    labelSelector: matchLabelsSelector(deployment.spec.selector?.matchLabels),
+  });
+  const response = await client.kubeFetch(`/apis/apps/v1/namespaces/${namespace}/replicasets?${params}`);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list replicasets for ${name}`);
+  }
+
+  const data = await response.json() as any;
+  const revisions = data.items
+    .filter((rs: any) => rs.metadata.ownerReferences?.some((ref: any) => ref.uid === deployment.metadata.uid))
+    .map((rs: any) => ({
+      revision: Number(rs.metadata.annotations?.["deployment.kubernetes.io/revision"] || 0),
+      template: rs.spec.template,
+    }))
+    .sort((a: any, b: any) => b.revision - a.revision);
+
+  const target = toRevision !== undefined
+    ? revisions.find((rs: any) => rs.revision === toRevision)
+    : revisions.find((rs: any) => rs.revision < currentRevision);
+
+  if (!target) {
+    throw new NotFoundError(
+      toRevision !== undefined
+        ? `Revision ${toRevision} not found for deployment ${name}`
+        : `No previous revision found for deployment ${name} (current revision ${currentRevision})`
+    );
+  }
+
+  // The ReplicaSet controller adds pod-template-hash; it must not be copied back
+  const template = structuredClone(target.template);
+  delete template.metadata?.labels?.["pod-template-hash"];
+
+  const updated = await patchResource(
+    client,
+    deploymentPath(name, namespace),
+    "application/json-patch+json",
+    [{ op: "replace", path: "/spec/template", value: template }],
+    `roll back deployment ${name}`
+  );
+
+  return { ...summariseRollout(updated), rolledBackTo: target.revision };
+}
+
+/**
+ * Summarise the pods of a deployment that aren't ready
+ */
+async function getFailingPods(client: GCPClient, deployment: any): Promise<FailingPod[]> {
+  const pods = await fetchPods(
+    client,
+    deployment.metadata.namespace,
+    matchLabelsSelector(deployment.spec.selector?.matchLabels)
+  );
+
+  return pods
+    .filter((pod: any) => !isPodReady(pod))
+    .map((pod: any) => ({
+      name: pod.metadata.name,
+      phase: pod.status.phase,
+      status: podStatus(pod),
+      containers: podContainers(pod),
+    }));
+}
+
+/**
+ * Get the rollout status of a deployment, including failing pods when it isn't complete
+ */
+export async function getRolloutStatus(
+  client: GCPClient,
+  name: string,
+  namespace: string = "apps"
+): Promise<RolloutStatus> {
+  const deployment = await getDeployment(client, name, namespace);
+  const rollout = summariseRollout(deployment);
+
+  if (rollout.state !== "complete") {
+    rollout.failingPods = await getFailingPods(client, deployment);
+  }
+
+  return rollout;
+}
+
+/**
+ * Poll a deployment until its rollout completes, fails or the timeout elapses
+ */
+export async function waitForRollout(
+  client: GCPClient,
+  name: string,
+  namespace: string = "apps",
+  timeoutSeconds: number = 120,
+  intervalSeconds: number = 5
+): Promise<RolloutStatus & { timedOut: boolean; waitedSeconds: number }> {
+  const started = Date.now();
+  const deadline = started + timeoutSeconds * 1000;
+
+  while (true) {
+    const deployment = await getDeployment(client, name, namespace);
+    const rollout = summariseRollout(deployment);
+    const timedOut = rollout.state === "progressing" && Date.now() + intervalSeconds * 1000 > deadline;
+
+    if (rollout.state !== "progressing" || timedOut) {
+      if (rollout.state !== "complete") {
+        rollout.failingPods = await getFailingPods(client, deployment);
+      }
+      return { ...rollout, timedOut, waitedSeconds: Math.round((Date.now() - started) / 1000) };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalSeconds * 1000));
+  }
+}
+
+// Field manager recorded on secrets written by the MCP server
+const SECRET_FIELD_MANAGER = "hello-mcp";
+
+/**
+ * An app secret's key names, never its values
+ */
+export interface AppSecretSummary {
+  name: string;
+  namespace: string;
+  type?: string;
+  // lastModified is the last write by whichever field manager owns the key
+  keys: { key: string; lastModified?: string }[];
+  labelled: boolean; // carries the app=<app> label
+  referenced: boolean; // used by the app's Deployment
+  missing?: boolean; // referenced by the Deployment but doesn't exist
+}
+
+/**
+ * Result of writing an app secret
+ */
+export interface AppSecretUpdate {
+  secret: AppSecretSummary;
+  created: boolean;
+  changedKeys: string[];
+  missingKeys?: string[];
+  rollout?: RolloutStatus;
+  restartError?: string;
+}
+
+/**
+ * Names of the secrets a deployment's pods use, through env, envFrom or volumes
+ */
+function deploymentSecretNames(deployment: any): Set<string> {
+  const spec = deployment.spec?.template?.spec || {};
+  const names: (string | undefined)[] = [];
+
+  for (const container of [...(spec.initContainers || []), ...(spec.containers || [])]) {
+    names.push(...(container.env || []).map((env: any) => env.valueFrom?.secretKeyRef?.name));
+    names.push(...(container.envFrom || []).map((envFrom: any) => envFrom.secretRef?.name));
+  }
+  for (const volume of spec.volumes || []) {
+    names.push(volume.secret?.secretName);
+    names.push(...(volume.projected?.sources || []).map((source: any) => source.secret?.name));
+  }
+
+  return new Set(names.filter((name): name is string => !!name));
+}
+
+/**
+ * Secrets referenced by an app's Deployment, or none if it hasn't been deployed yet
+ */
+async function appSecretReferences(client: GCPClient, app: string, namespace: string): Promise<Set<string>> {
+  try {
+    return deploymentSecretNames(await getDeployment(client, app, namespace));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return new Set();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Summarise a secret without its values
+ */
+function summariseSecret(secret: any, app: string, references: Set<string>): AppSecretSummary {
+  // Per-key write times from server-side field management
+  const modified: Record<string, string> = {};
+  for (const entry of secret.metadata.managedFields || []) {
+    for (const field of Object.keys(entry.fieldsV1?.["f:data"] || {})) {
+      const key = field.replace(/^f:/, "");
+      if (entry.time && !(modified[key] > entry.time)) {
+        modified[key] = entry.time;
+      }
+    }
+  }
+
+  return {
+    name: secret.metadata.name,
+    namespace: secret.metadata.namespace,
+    type: secret.type,
+    keys: Object.keys(secret.data || {})
+      .sort()
+      .map((key) => ({ key, lastModified: modified[key] || secret.metadata.creationTimestamp })),
+    labelled: secret.metadata.labels?.app === app,
+    referenced: references.has(secret.metadata.name),
+  };
+}
+
+/**
+ * Fetch a secret, or null if it doesn't exist
+ */
+async function findSecret(client: GCPClient, name: string, namespace: string): Promise<any | null> {
+  const response = await client.kubeFetch(secretPath(name, namespace));
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to get secret ${name}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Check that an app may write the named secret: the namespace is writable,
+ * and the secret either doesn't exist yet or belongs to the app. Returns the
+ * existing secret (if any) and the app's secret references.
+ */
+export async function findWritableAppSecret(
+  client: GCPClient,
+  app: string,
+  name: string,
+  namespace: string = "apps"
+): Promise<{ existing: any | null; references: Set<string> }> {
+  assertWritableNamespace(client, namespace);
+  // Before either lookup, so a bad name sends no request at all
+  assertDnsLabel(app, "app name");
+  assertDnsLabel(name, "secret name");
+
+  const [existing, references] = await Promise.all([
+    findSecret(client, name, namespace),
+    appSecretReferences(client, app, namespace),
+  ]);
+  if (existing) {
+    assertAppSecret(existing, app, references);
+  }
+  return { existing, references };
+}
+
+/**
+ * List an app's secrets: those labelled app=<app> and those its Deployment
+ * references. Only key names and modification times are returned.
+ */
+export async function listAppSecrets(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps"
+): Promise<AppSecretSummary[]> {
+  const [labelled, references] = await Promise.all([
+    listResources(client, `/api/v1/namespaces/${namespace}/secrets`, `app=${app}`),
+    appSecretReferences(client, app, namespace),
+  ]);
+
+  const summaries = labelled.map((secret) => summariseSecret(secret, app, references));
+  for (const name of references) {
+    if (summaries.some((summary) => summary.name === name)) {
+      continue;
+    }
+    const secret = await findSecret(client, name, namespace);
+    summaries.push(
+      secret
+        ? summariseSecret(secret, app, references)
+        : { name, namespace, keys: [], labelled: false, referenced: true, missing: true }
+    );
+  }
+
+  return summaries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Check that an existing secret is an Opaque secret belonging to the app
+ */
+function assertAppSecret(secret: any, app: string, references: Set<string>): void {
+  const name = secret.metadata.name;
+  if (secret.metadata.labels?.app !== app && !references.has(name)) {
+    throw new ForbiddenError(`Secret "${name}" is neither labelled app=${app} nor used by the ${app} Deployment`);
+  }
+  if (secret.type && secret.type !== "Opaque") {
+    throw new ForbiddenError(`Secret "${name}" has type ${secret.type}; only Opaque secrets can be edited`);
+  }
+}
+
+/**
+ * Restart the app's Deployment after a secret change, reporting a failure
+ * rather than throwing since the secret has already been written
+ */
+async function restartAfterSecretChange(
+  client: GCPClient,
+  app: string,
+  namespace: string
+): Promise<Pick<AppSecretUpdate, "rollout" | "restartError">> {
+  try {
+    return { rollout: await restartDeployment(client, app, namespace) };
+  } catch (error: any) {
+    return { restartError: error.message };
+  }
+}
+
+/**
+ * Create or patch an app's Opaque secret with the given keys. New secrets are
+ * labelled app=<app>; existing ones must belong to the app. Values are
+ * write-only: nothing returned or thrown includes them.
+ */
+export async function setAppSecretKeys(
+  client: GCPClient,
+  app: string,
+  name: string,
+  values: Record<string, string>,
+  namespace: string = "apps",
+  restart: boolean = false
+): Promise<AppSecretUpdate> {
+  const { existing, references } = await findWritableAppSecret(client, app, name, namespace);
+  const params = new URLSearchParams({ fieldManager: SECRET_FIELD_MANAGER });
+
+  let secret: any;
+  if (existing) {
+    secret = await patchResource(
+      client,
+      `${secretPath(name, namespace)}?${params}`,
+      "application/merge-patch+json",
+      { stringData: values },
+      `update secret ${name}`
+    );
+  } else {
+    const response = await client.kubeFetch(`/api/v1/namespaces/${namespace}/secrets?${params}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        apiVersion: "v1",
+        kind: "Secret",
+        metadata: { name, namespace, labels: { app } },
+        type: "Opaque",
+        stringData: values,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await upstreamError(response, `Failed to create secret ${name}`);
+    }
+    secret = await response.json();
+  }
+
+  return {
+    secret: summariseSecret(secret, app, references),
+    created: !existing,
+    changedKeys: Object.keys(values).sort(),
+    ...(restart ? await restartAfterSecretChange(client, app, namespace) : {}),
+  };
+}
+
+/**
+ * Remove keys from an app's Opaque secret
+ */
+export async function deleteAppSecretKeys(
+  client: GCPClient,
+  app: string,
+  name: string,
+  keys: string[],
+  namespace: string = "apps",
+  restart: boolean = false
+): Promise<AppSecretUpdate> {
+  const { existing, references } = await findWritableAppSecret(client, app, name, namespace);
+  if (!existing) {
+    throw new NotFoundError(`Secret "${name}" not found in namespace ${namespace}`);
+  }
+
+  const present = keys.filter((key) => key in (existing.data || {}));
+  const missingKeys = keys.filter((key) => !present.includes(key));
+  if (present.length === 0) {
+    return { secret: summariseSecret(existing, app, references), created: false, changedKeys: [], missingKeys };
+  }
+
+  const secret = await patchResource(
+    client,
+    `${secretPath(name, namespace)}?${new URLSearchParams({ fieldManager: SECRET_FIELD_MANAGER })}`,
+    "application/merge-patch+json",
+    { data: Object.fromEntries(present.map((key) => [key, null])) },
+    `update secret ${name}`
+  );
+
+  return {
+    secret: summariseSecret(secret, app, references),
+    created: false,
+    changedKeys: present.sort(),
+    ...(missingKeys.length > 0 && { missingKeys }),
+    ...(restart ? await restartAfterSecretChange(client, app, namespace) : {}),
+  };
+}
+
+/**
+ * Options for filtering Kubernetes events
+ */
+export interface EventFilter {
+  kind?: string; // involvedObject kind, e.g. "Pod"
+  name?: string; // involvedObject name
+  app?: string; // app label; matches events for the app's pods, ReplicaSets and Deployments
+  limit?: number;
+}
+
+/**
+ * An event, collapsed with repeats of the same reason and message
+ */
+export interface EventSummary {
+  type: string;
+  reason: string;
+  object: string;
+  message: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+}
+
+/**
+ * Resolve the kind/name of every object belonging to an app label
+ */
+async function getAppObjects(client: GCPClient, namespace: string, app: string): Promise<Set<string>> {
+  const params = new URLSearchParams({ labelSelector: `app=${app}` });
+  const objects = new Set<string>();
+
+  for (const [kind, path] of [
+    ["Deployment", `/apis/apps/v1/namespaces/${namespace}/deployments`],
+    ["ReplicaSet", `/apis/apps/v1/namespaces/${namespace}/replicasets`],
+  ]) {
+    const response = await client.kubeFetch(`${path}?${params}`);
+
+    if (!response.ok) {
+      throw await upstreamError(response, `Failed to list ${kind.toLowerCase()}s for app ${app}`);
+    }
+
+    const data = await response.json() as any;
+    for (const item of data.items) {
+      objects.add(`${kind}/${item.metadata.name}`);
+    }
+  }
+
+  for (const pod of await fetchPods(client, namespace, `app=${app}`)) {
+    objects.add(`Pod/${pod.metadata.name}`);
+  }
+
+  return objects;
+}
+
+/**
+ * Get events in a namespace, newest first, with repeats collapsed
+ */
+export async function getEvents(
+  client: GCPClient,
+  namespace: string = "apps",
+  filter: EventFilter = {}
+): Promise<EventSummary[]> {
+  const fieldSelectors: string[] = [];
+  if (filter.kind) {
+    fieldSelectors.push(`involvedObject.kind=${filter.kind}`);
+  }
+  if (filter.name) {
+    fieldSelectors.push(`involvedObject.name=${filter.name}`);
+  }
+
+  const params = new URLSearchParams();
+  if (fieldSelectors.length > 0) {
+    params.set("fieldSelector", fieldSelectors.join(","));
+  }
+
+  const response = await client.kubeFetch(`/api/v1/namespaces/${namespace}/events?${params}`);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list events`);
+  }
+
+  const data = await response.json() as any;
+  let events: any[] = data.items;
+
+  if (filter.app) {
+    const objects = await getAppObjects(client, namespace, filter.app);
+    events = events.filter((event) => objects.has(`${event.involvedObject.kind}/${event.involvedObject.name}`));
+  }
+
+  // Collapse repeats of the same reason and message on the same object
+  const summaries = new Map<string, EventSummary>();
+  for (const event of events) {
+    const object = `${event.involvedObject.kind}/${event.involvedObject.name}`;
+    const key = `${object}|${event.reason}|${event.message}`;
+    const firstSeen = event.firstTimestamp || event.eventTime || event.metadata.creationTimestamp;
+    const lastSeen = event.lastTimestamp || event.series?.lastObservedTime || event.eventTime || firstSeen;
+    const count = event.count || event.series?.count || 1;
+
+    const existing = summaries.get(key);
+    if (!existing) {
+      summaries.set(key, { type: event.type, reason: event.reason, object, message: event.message, count, firstSeen, lastSeen });
+      continue;
+    }
+
+    existing.count += count;
+    if (firstSeen && (!existing.firstSeen || firstSeen < existing.firstSeen)) {
+      existing.firstSeen = firstSeen;
+    }
+    if (lastSeen && (!existing.lastSeen || lastSeen > existing.lastSeen)) {
+      existing.lastSeen = lastSeen;
+    }
+  }
+
+  return [...summaries.values()]
+    .sort((a, b) => (b.lastSeen || "").localeCompare(a.lastSeen || ""))
+    .slice(0, filter.limit ?? 100);
+}
+
+/**
+ * List the apps in a namespace, one per Deployment (named by its app label)
+ */
+export async function listApps(client: GCPClient, namespace: string = "apps"): Promise<string[]> {
+  const response = await client.kubeFetch(`/apis/apps/v1/namespaces/${namespace}/deployments`);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list deployments`);
+  }
+
+  const data = await response.json() as any;
+  const apps = data.items.map((deployment: any) => deployment.metadata.labels?.app || deployment.metadata.name);
+  return [...new Set<string>(apps)].sort();
+}
+
+/**
+ * Live state of an app: rollout progress, pods and recent events
+ */
+export interface AppStatus {
+  app: string;
+  namespace: string;
+  rollout: RolloutStatus;
+  pods: PodDiagnostics[];
+  events: EventSummary[];
+}
+
+/**
+ * Get an app's rollout status, pods and most recent events in one call
+ */
+export async function getAppStatus(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps",
+  eventLimit: number = 10
+): Promise<AppStatus> {
+  const [rollout, pods, events] = await Promise.all([
+    getRolloutStatus(client, app, namespace),
+    listPods(client, namespace, `app=${app}`),
+    getEvents(client, namespace, { app, limit: eventLimit }),
+  ]);
+
+  return { app, namespace, rollout, pods: pods.items, events };
+}
+
+/**
+ * Cloud Monitoring metrics collected for app containers, grouped by what
+ * get_app_metrics can be asked for
+ */
+const APP_METRICS: Record<string, { name: string; type: string; aligner: string; unit: string; extraFilter?: string }[]> = {
+  cpu: [
+    { name: "cpu_cores", type: "kubernetes.io/container/cpu/core_usage_time", aligner: "ALIGN_RATE", unit: "cores" },
+    { name: "cpu_limit_utilization", type: "kubernetes.io/container/cpu/limit_utilization", aligner: "ALIGN_MEAN", unit: "ratio" },
+  ],
+  memory: [
+    {
+      name: "memory_working_set_bytes",
+      type: "kubernetes.io/container/memory/used_bytes",
+      aligner: "ALIGN_MEAN",
+      unit: "bytes",
+      extraFilter: `metric.labels.memory_type="non-evictable"`,
+    },
+    { name: "memory_limit_bytes", type: "kubernetes.io/container/memory/limit_bytes", aligner: "ALIGN_MEAN", unit: "bytes" },
+    {
+      name: "memory_limit_utilization",
+      type: "kubernetes.io/container/memory/limit_utilization",
+      aligner: "ALIGN_MEAN",
+      unit: "ratio",
+      extraFilter: `metric.labels.memory_type="non-evictable"`,
+    },
+  ],
+  restarts: [
+    { name: "restarts", type: "kubernetes.io/container/restart_count", aligner: "ALIGN_DELTA", unit: "count" },
+  ],
+};
+
+/**
+ * A metric series for one container, aligned to a fixed step
+ */
+export interface MetricSeries {
+  metric: string;
+  unit: string;
+  pod: string;
+  container: string;
+  start: string;
+  stepSeconds: number;
+  values: (number | null)[]; // one per step from start; null where there was no data
+  summary: { min: number; max: number; avg: number; latest: number } | null;
+}
+
+/**
+ * Get CPU, memory and restart series for an app's containers from Cloud Monitoring
+ */
+export async function getAppMetrics(
+  client: GCPClient,
+  app: string,
+  namespace: string = "apps",
+  windowMinutes: number = 60,
+  stepSeconds: number = 60,
+  metrics: string[] = Object.keys(APP_METRICS)
+): Promise<{ app: string; namespace: string; start: string; end: string; series: MetricSeries[] }> {
+  const endMs = Math.floor(Date.now() / (stepSeconds * 1000)) * stepSeconds * 1000;
+  const startMs = endMs - windowMinutes * 60 * 1000;
+  const start = new Date(startMs).toISOString();
+  const end = new Date(endMs).toISOString();
+  const stepCount = Math.ceil((endMs - startMs) / (stepSeconds * 1000));
+
+  const series: MetricSeries[] = [];
+  for (const group of metrics) {
+    const definitions = APP_METRICS[group];
+    if (!definitions) {
+      throw new Error(`Unknown metric group: ${group} (expected one of ${Object.keys(APP_METRICS).join(", ")})`);
+    }
+
+    for (const definition of definitions) {
+      const filter = [
+        `metric.type="${definition.type}"`,
+        `resource.type="k8s_container"`,
+        `resource.labels.cluster_name=${quoteFilterValue(client.config.clusterName)}`,
+        `resource.labels.namespace_name=${quoteFilterValue(namespace)}`,
+        `metadata.user_labels."app"=${quoteFilterValue(app)}`,
+        definition.extraFilter,
+      ].filter(Boolean).join(" AND ");
+
+      for (const timeSeries of await listTimeSeries(client, filter, start, end, stepSeconds, definition.aligner)) {
+        const values: (number | null)[] = new Array(stepCount).fill(null);
+        for (const point of timeSeries.points || []) {
+          const index = Math.round((Date.parse(point.interval.endTime) - startMs) / (stepSeconds * 1000)) - 1;
+          if (index >= 0 && index < stepCount) {
+            values[index] = Number(point.value.doubleValue ?? point.value.int64Value ?? 0);
+          }
+        }
+
+        series.push({
+          metric: definition.name,
+          unit: definition.unit,
+          pod: timeSeries.resource.labels.pod_name,
+          container: timeSeries.resource.labels.container_name,
+          start,
+          stepSeconds,
+          values,
+          summary: summariseValues(values),
+        });
+      }
+    }
+  }
+
+  return { app, namespace, start, end, series };
+}
+
+/**
+ * Call timeSeries.list, following page tokens
+ */
+async function listTimeSeries(
+  client: GCPClient,
+  filter: string,
+  start: string,
+  end: string,
+  stepSeconds: number,
+  aligner: string
+): Promise<any[]> {
+  const results: any[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      filter,
+      "interval.startTime": start,
+      "interval.endTime": end,
+      "aggregation.alignmentPeriod": `${stepSeconds}s`,
+      "aggregation.perSeriesAligner": aligner,
+    });
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const response = await client.fetch(
+      `https://monitoring.googleapis.com/v3/projects/${client.projectId}/timeSeries?${params}`
+    );
+
+    if (!response.ok) {
+      throw await upstreamError(response, `Failed to query metrics`);
+    }
+
+    const data = await response.json() as any;
+    results.push(...(data.timeSeries || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return results;
+}
+
+/**
+ * Min/max/avg/latest of the non-null values in a series
+ */
+function summariseValues(values: (number | null)[]): MetricSeries["summary"] {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) {
+    return null;
+  }
+
+  const round = (n: number) => Number(n.toPrecision(4));
+  return {
+    min: round(Math.min(...present)),
+    max: round(Math.max(...present)),
+    avg: round(present.reduce((sum, v) => sum + v, 0) / present.length),
+    latest: round(present[present.length - 1]),
+  };
 }
@@ -0,0 +1,169 @@
+/**
+ * GitHub Actions Tools for MCP Server
+ *
+ * Uses the GitHub REST API directly so the agent can follow its pushes
+ * through deploy-app.yml and deploy-mcp.yml
+ */
+
+import { upstreamError } from "./errors";
+
+export interface GitHubConfig {
+  token: string;
+  owner: string;
+  repo: string;
+  apiUrl?: string; // Defaults to https://api.github.com
+  fetch?: typeof fetch; // Defaults to the global fetch
+}
+
+/**
+ * Authenticated request against the GitHub REST API
+ */
+async function githubFetch(config: GitHubConfig, path: string, init: RequestInit = {}): Promise<Response> {
+  const apiUrl = (config.apiUrl || "https://api.github.com").replace(/\/+$/, "");
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${config.token}`);
+  headers.set("Accept", "application/vnd.github+json");
+  headers.set("X-GitHub-Api-Version", "2022-11-28");
+  headers.set("User-Agent", "hello-mcp");
+
+  return (config.fetch ?? fetch)(`${apiUrl}/repos/${config.owner}/${config.repo}${path}`, { ...init, headers });
+}
+
+/**
+ * Summarise a workflow run
+ */
+function summariseRun(run: any) {
+  return {
+    id: run.id,
+    workflow: run.path?.split("/").pop() || run.name,
+    name: run.name,
+    title: run.display_title,
+    branch: run.head_branch,
+    sha: run.head_sha,
+    event: run.event,
+    status: run.status,
+    conclusion: run.conclusion,
+    attempt: run.run_attempt,
+    createdAt: run.created_at,
+    updatedAt: run.updated_at,
+    url: run.html_url,
+  };
+}
+
+/**
+ * List recent workflow runs, optionally for one workflow file and/or branch
+ */
+export async function listWorkflowRuns(
+  config: GitHubConfig,
+  workflow?: string,
+  branch?: string,
+  limit: number = 10
+): Promise<any> {
+  const params = new URLSearchParams({ per_page: limit.toString() });
+  if (branch) {
+    params.set("branch", branch);
+  }
+
+  const path = workflow
+    ? `/actions/workflows/${encodeURIComponent(workflow)}/runs?${params}`
+    : `/actions/runs?${params}`;
+  const response = await githubFetch(config, path);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list workflow runs`);
+  }
+
+  const data = await response.json() as any;
+
+  return {
+    items: data.workflow_runs.map(summariseRun),
+    total: data.total_count,
+  };
+}
+
+/**
+ * Get run, job and step status for every workflow triggered by a commit
+ */
+export async function getCommitRuns(config: GitHubConfig, sha: string): Promise<any> {
+  const response = await githubFetch(config, `/actions/runs?${new URLSearchParams({ head_sha: sha })}`);
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to list workflow runs for ${sha}`);
+  }
+
+  const data = await response.json() as any;
+
+  const runs = await Promise.all(
+    data.workflow_runs.map(async (run: any) => {
+      const jobsResponse = await githubFetch(config, `/actions/runs/${run.id}/jobs`);
+
+      if (!jobsResponse.ok) {
+        throw await upstreamError(jobsResponse, `Failed to list jobs for run ${run.id}`);
+      }
+
+      const jobs = await jobsResponse.json() as any;
+      return {
+        ...summariseRun(run),
+        jobs: jobs.jobs.map((job: any) => ({
+          id: job.id,
+          name: job.name,
+          status: job.status,
+          conclusion: job.conclusion,
+          startedAt: job.started_at,
+          completedAt: job.completed_at,
+          steps: (job.steps || []).map((step: any) => ({
+            number: step.number,
+            name: step.name,
+            status: step.status,
+            conclusion: step.conclusion,
+          })),
+        })),
+      };
+    })
+  );
+
+  return { sha, runs };
+}
+
+/**
+ * Get the tail of a job's log, along with the name of the step that failed
+ */
+export async function getJobLogTail(config: GitHubConfig, jobId: number, tailLines: number = 100): Promise<any> {
+  const jobResponse = await githubFetch(config, `/actions/jobs/${jobId}`);
+
+  if (!jobResponse.ok) {
+    throw await upstreamError(jobResponse, `Failed to get job ${jobId}`);
+  }
+
+  const job = await jobResponse.json() as any;
+  const failedStep = (job.steps || []).find((step: any) => step.conclusion === "failure");
+
+  // GitHub redirects to a short-lived download URL, which fetch follows
+  const logResponse = await githubFetch(config, `/actions/jobs/${jobId}/logs`);
+
+  if (!logResponse.ok) {
+    throw await upstreamError(logResponse, `Failed to get logs for job ${jobId}`);
+  }
+
+  const lines = (await logResponse.text()).split("\n");
+
+  return {
+    job: job.name,
+    conclusion: job.conclusion,
+    failedStep: failedStep?.name,
+    log: lines.slice(-tailLines).join("\n"),
+  };
+}
+
+/**
+ * Re-run the failed jobs of a workflow run
+ */
+export async function rerunFailedJobs(config: GitHubConfig, runId: number): Promise<any> {
+  const response = await githubFetch(config, `/actions/runs/${runId}/rerun-failed-jobs`, { method: "POST" });
+
+  if (!response.ok) {
+    throw await upstreamError(response, `Failed to re-run failed jobs for run ${runId}`);
+  }
+
+  return { runId, rerunRequested: true };
+}
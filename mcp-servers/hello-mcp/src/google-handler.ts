@@ -5,29 +5,108 @@
  * It acts as an OAuth server to MCP clients while using Google as the identity provider.
  */
 
+import { loadAccessPolicy, resolveRole, roleAllows, type Role } from "./access-policy";
+import { verifyGoogleIdToken } from "./google-id-token";
+import {
+  createEncryptedCookie,
+  readEncryptedCookie,
+  clearCookie,
+  SESSION_COOKIE_NAME,
+  ADMIN_COOKIE_NAME,
+} from "./session-cookie";
+import {
+  getApproval,
+  saveApproval,
+  listApprovals,
+  deleteApprovals,
+  renderConsentPage,
+  renderClientsPage,
+  type ClientsPageData,
+} from "./consent";
+import { matchProtectedResourcePath, protectedResourceMetadata } from "./protected-resource";
+
 const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
 const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
-const GOOGLE_USERINFO_URL = "https://www.googleapis.com/oauth2/v2/userinfo";
+
+// How long a user has to complete the Google sign-in (and the consent screen)
+const AUTH_STATE_TTL_SECONDS = 600;
+
+// How long a /clients admin session lasts
+const ADMIN_SESSION_TTL_SECONDS = 3600;
 
 interface AuthRequest {
+  responseType: string;
   clientId: string;
   redirectUri: string;
   state: string;
-  scope: string;
+  scope: string[];
   codeChallenge?: string;
   codeChallengeMethod?: string;
 }
 
+interface ClientInfo {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  registrationDate?: number;
+}
+
+interface GrantSummary {
+  id: string;
+  clientId: string;
+  userId: string;
+  scope: string[];
+  metadata: any;
+  createdAt: number;
+}
+
+// Sign-in stored in KV while the user is at Google. Admin page sign-ins
+// have no authRequest.
+interface PendingSignIn {
+  googleCodeVerifier: string;
+  nonce: string;
+  authRequest?: AuthRequest;
+}
+
+// Verified Google identity and its role in the access policy
+interface SignedInUser {
+  userId: string;
+  email: string;
+  name?: string;
+  hostedDomain?: string; // Google Workspace domain (hd claim), for re-checking domain roles later
+  role: Role;
+  accessToken: string;
+}
+
+// Authorization waiting on the consent screen
+interface PendingConsent {
+  authRequest: AuthRequest;
+  user: SignedInUser;
+}
+
+// Contents of the encrypted admin session cookie
+interface AdminSession {
+  userId: string;
+  email: string;
+  csrfToken: string;
+  expiresAt: number;
+}
+
 export interface Env {
   OAUTH_KV: KVNamespace;
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
   COOKIE_ENCRYPTION_KEY: string;
-  AUTHORIZED_EMAIL: string;
+  AUTHORIZED_EMAIL?: string;
+  ACCESS_POLICY?: string;
   OAUTH_PROVIDER: {
     parseAuthRequest(request: Request): Promise<AuthRequest>;
-    lookupClient(clientId: string): Promise<{ name: string; redirectUris: string[] } | null>;
-    completeAuthorization(options: { request: AuthRequest; userId: string; metadata?: Record<string, unknown>; scope: string; props?: Record<string, unknown> }): Promise<{ redirectTo: string }>;
+    lookupClient(clientId: string): Promise<ClientInfo | null>;
+    completeAuthorization(options: { request: AuthRequest; userId: string; metadata?: Record<string, unknown>; scope: string[]; props?: Record<string, unknown> }): Promise<{ redirectTo: string }>;
+    listClients(options?: { limit?: number; cursor?: string }): Promise<{ items: ClientInfo[]; cursor?: string }>;
+    deleteClient(clientId: string): Promise<void>;
+    listUserGrants(userId: string, options?: { limit?: number; cursor?: string }): Promise<{ items: GrantSummary[]; cursor?: string }>;
+    revokeGrant(grantId: string, userId: string): Promise<void>;
   };
 }
 
@@ -35,6 +114,14 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
+    // Protected-resource metadata for MCP client discovery
+    const endpointPath = matchProtectedResourcePath(url.pathname);
+    if (endpointPath !== null) {
+      return Response.json(protectedResourceMetadata(url.origin, endpointPath), {
+        headers: { "Access-Control-Allow-Origin": "*" },
+      });
+    }
+
     // Handle the OAuth authorization request from MCP client
     if (url.pathname === "/authorize") {
       return handleAuthorize(request, env);
@@ -45,6 +132,19 @@ export default {
       return handleCallback(request, env);
     }
 
+    // Handle the consent screen's approve/deny form
+    if (url.pathname === "/consent" && request.method === "POST") {
+      return handleConsent(request, env);
+    }
+
+    // Admin page for registered clients and grants
+    if (url.pathname === "/clients" && request.method === "GET") {
+      return handleClientsPage(request, env);
+    }
+    if (url.pathname.startsWith("/clients/") && request.method === "POST") {
+      return handleClientsAction(request, env);
+    }
+
     // Show a simple login page or redirect
     return new Response("Google OAuth MCP Server", {
       headers: { "Content-Type": "text/plain" },
@@ -62,20 +162,23 @@ async function handleAuthorize(request: Request, env: Env): Promise<Response> {
     return new Response("Unknown client", { status: 400 });
   }
 
+  return startGoogleSignIn(request, env, authRequest);
+}
+
+/**
+ * Send the user to Google, remembering the auth request (if any) in KV
+ */
+async function startGoogleSignIn(request: Request, env: Env, authRequest?: AuthRequest): Promise<Response> {
+  // Google-side PKCE and nonce, kept server-side until the callback
+  const googleCodeVerifier = randomToken();
+  const nonce = randomToken();
+
   // Store the full auth request in KV for the callback (including PKCE values)
   const stateKey = crypto.randomUUID();
-  await env.OAUTH_KV.put(
-    `auth:${stateKey}`,
-    JSON.stringify({
-      clientId: authRequest.clientId,
-      redirectUri: authRequest.redirectUri,
-      state: authRequest.state,
-      scope: authRequest.scope,
-      codeChallenge: authRequest.codeChallenge,
-      codeChallengeMethod: authRequest.codeChallengeMethod,
-    }),
-    { expirationTtl: 600 } // 10 minutes
-  );
+  const pendingSignIn: PendingSignIn = { googleCodeVerifier, nonce, authRequest };
+  await env.OAUTH_KV.put(`auth:${stateKey}`, JSON.stringify(pendingSignIn), {
+    expirationTtl: AUTH_STATE_TTL_SECONDS,
+  });
 
   // Build Google OAuth URL
   const googleAuthUrl = new URL(GOOGLE_AUTH_URL);
@@ -84,10 +187,20 @@ async function handleAuthorize(request: Request, env: Env): Promise<Response> {
   googleAuthUrl.searchParams.set("response_type", "code");
   googleAuthUrl.searchParams.set("scope", "openid email profile");
   googleAuthUrl.searchParams.set("state", stateKey);
+  googleAuthUrl.searchParams.set("nonce", nonce);
+  googleAuthUrl.searchParams.set("code_challenge", await sha256Base64Url(googleCodeVerifier));
+  googleAuthUrl.searchParams.set("code_challenge_method", "S256");
   googleAuthUrl.searchParams.set("access_type", "offline");
   googleAuthUrl.searchParams.set("prompt", "consent");
 
-  return Response.redirect(googleAuthUrl.toString(), 302);
+  // Bind the state to this browser so the callback can't be replayed elsewhere
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: googleAuthUrl.toString(),
+      "Set-Cookie": await createEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, SESSION_COOKIE_NAME, stateKey, AUTH_STATE_TTL_SECONDS),
+    },
+  });
 }
 
 async function handleCallback(request: Request, env: Env): Promise<Response> {
@@ -104,12 +217,21 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
     return new Response("Missing code or state", { status: 400 });
   }
 
+  // The state must belong to the browser that started the flow
+  const cookieStateKey = await readEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, request, SESSION_COOKIE_NAME);
+  if (cookieStateKey !== stateKey) {
+    return new Response("Authorization session mismatch: start the sign-in again from the same browser", { status: 400 });
+  }
+
   // Retrieve the original auth request
-  const authRequestJson = await env.OAUTH_KV.get(`auth:${stateKey}`);
-  if (!authRequestJson) {
+  const pendingJson = await env.OAUTH_KV.get(`auth:${stateKey}`);
+  if (!pendingJson) {
     return new Response("Invalid or expired state", { status: 400 });
   }
-  const authRequest: AuthRequest = JSON.parse(authRequestJson);
+  const { googleCodeVerifier, nonce, authRequest }: PendingSignIn = JSON.parse(pendingJson);
+
+  // Single use: a second callback with this state must fail
+  await env.OAUTH_KV.delete(`auth:${stateKey}`);
 
   // Exchange code for tokens with Google
   const tokenResponse = await fetch(GOOGLE_TOKEN_URL, {
@@ -121,6 +243,7 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
       code,
       grant_type: "authorization_code",
       redirect_uri: `${url.origin}/callback`,
+      code_verifier: googleCodeVerifier,
     }),
   });
 
@@ -129,52 +252,296 @@ async function handleCallback(request: Request, env: Env): Promise<Response> {
     return new Response(`Token exchange failed: ${errorText}`, { status: 400 });
   }
 
-  const tokens = await tokenResponse.json() as { access_token: string };
+  const tokens = await tokenResponse.json() as { access_token: string; id_token?: string };
 
-  // Get user info from Google
-  const userInfoResponse = await fetch(GOOGLE_USERINFO_URL, {
-    headers: { Authorization: `Bearer ${tokens.access_token}` },
-  });
+  if (!tokens.id_token) {
+    return new Response("Google did not return an ID token", { status: 400 });
+  }
 
-  if (!userInfoResponse.ok) {
-    return new Response("Failed to get user info", { status: 400 });
+  // Verify the user's identity from the signed ID token
+  let userInfo;
+  try {
+    userInfo = await verifyGoogleIdToken(tokens.id_token, env.GOOGLE_CLIENT_ID, nonce);
+  } catch (error: any) {
+    console.error("[OAuth] ID token verification failed:", error.message);
+    return new Response(`Invalid ID token: ${error.message}`, { status: 400 });
   }
 
-  const userInfo = await userInfoResponse.json() as { id: string; email: string; name: string };
+  if (!userInfo.email_verified) {
+    return new Response("Unauthorized: your Google account email is not verified.", {
+      status: 403,
+      headers: { "Content-Type": "text/plain" }
+    });
+  }
 
-  // Only allow the authorized email to access this MCP server
-  console.log("[OAuth] User email:", userInfo.email);
-  console.log("[OAuth] Authorized email:", env.AUTHORIZED_EMAIL);
-  console.log("[OAuth] Match:", userInfo.email === env.AUTHORIZED_EMAIL);
+  // Only allow users in the access policy to access this MCP server
+  const policy = await loadAccessPolicy(env);
+  const role = resolveRole(policy, userInfo.email, userInfo.hd);
 
-  if (userInfo.email !== env.AUTHORIZED_EMAIL) {
-    console.error("[OAuth] Unauthorized access attempt:", userInfo.email);
+  if (!role) {
+    console.error("[OAuth] Unauthorized access attempt");
     return new Response("Unauthorized: This MCP server is restricted to authorized users only.", {
       status: 403,
       headers: { "Content-Type": "text/plain" }
     });
   }
 
-  console.log("[OAuth] Access granted to:", userInfo.email);
+  console.log("[OAuth] Access granted with role:", role);
 
-  // Clean up the state
-  await env.OAUTH_KV.delete(`auth:${stateKey}`);
+  const user: SignedInUser = {
+    userId: userInfo.sub,
+    email: userInfo.email,
+    name: userInfo.name,
+    hostedDomain: userInfo.hd,
+    role,
+    accessToken: tokens.access_token,
+  };
+
+  // Signing in to the admin page rather than authorizing a client
+  if (!authRequest) {
+    return startAdminSession(env, user);
+  }
+
+  // Skip the consent screen if this user already approved this client
+  if (await getApproval(env.OAUTH_KV, user.userId, authRequest.clientId)) {
+    return completeMcpAuthorization(env, authRequest, user);
+  }
+
+  const client = await env.OAUTH_PROVIDER.lookupClient(authRequest.clientId);
+  if (!client) {
+    return new Response("Unknown client", { status: 400 });
+  }
+
+  // Hold the authorization until the user approves it, bound to this browser
+  const consentId = crypto.randomUUID();
+  const pendingConsent: PendingConsent = { authRequest, user };
+  await env.OAUTH_KV.put(`consent:${consentId}`, JSON.stringify(pendingConsent), {
+    expirationTtl: AUTH_STATE_TTL_SECONDS,
+  });
+
+  const response = renderConsentPage({
+    consentId,
+    clientName: client.clientName || "Unnamed client",
+    clientId: client.clientId,
+    redirectUris: client.redirectUris,
+    scope: authRequest.scope,
+    email: user.email,
+    role: user.role,
+  });
+  response.headers.set(
+    "Set-Cookie",
+    await createEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, SESSION_COOKIE_NAME, consentId, AUTH_STATE_TTL_SECONDS)
+  );
+  return response;
+}
+
+async function handleConsent(request: Request, env: Env): Promise<Response> {
+  const form = await request.formData();
+  const consentId = form.get("consent_id");
+  const action = form.get("action");
+
+  // The form must be submitted from the browser the consent screen was shown to
+  const cookieConsentId = await readEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, request, SESSION_COOKIE_NAME);
+  if (typeof consentId !== "string" || cookieConsentId !== consentId) {
+    return new Response("Consent session mismatch: start the sign-in again from the same browser", { status: 400 });
+  }
 
+  const pendingJson = await env.OAUTH_KV.get(`consent:${consentId}`);
+  if (!pendingJson) {
+    return new Response("Invalid or expired consent request", { status: 400 });
+  }
+  await env.OAUTH_KV.delete(`consent:${consentId}`);
+
+  const { authRequest, user }: PendingConsent = JSON.parse(pendingJson);
+
+  if (action !== "approve") {
+    const redirectUrl = new URL(authRequest.redirectUri);
+    redirectUrl.searchParams.set("error", "access_denied");
+    if (authRequest.state) {
+      redirectUrl.searchParams.set("state", authRequest.state);
+    }
+    return new Response(null, {
+      status: 302,
+      headers: { Location: redirectUrl.toString(), "Set-Cookie": clearCookie(SESSION_COOKIE_NAME) },
+    });
+  }
+
+  const client = await env.OAUTH_PROVIDER.lookupClient(authRequest.clientId);
+  await saveApproval(env.OAUTH_KV, {
+    userId: user.userId,
+    clientId: authRequest.clientId,
+    email: user.email,
+    clientName: client?.clientName,
+    approvedAt: new Date().toISOString(),
+  });
+
+  return completeMcpAuthorization(env, authRequest, user);
+}
+
+/**
+ * Issue the MCP client's authorization code and redirect back to it
+ */
+async function completeMcpAuthorization(env: Env, authRequest: AuthRequest, user: SignedInUser): Promise<Response> {
   // Complete the authorization with the OAuth provider
   // Pass the full auth request including PKCE values
   const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
     request: authRequest,
-    userId: userInfo.id,
+    userId: user.userId,
     metadata: {
-      email: userInfo.email,
-      name: userInfo.name,
+      email: user.email,
+      name: user.name,
     },
     scope: authRequest.scope,
     props: {
-      accessToken: tokens.access_token,
+      userId: user.userId,
+      accessToken: user.accessToken,
+      email: user.email,
+      hostedDomain: user.hostedDomain,
+      role: user.role,
     },
   });
 
   // Redirect back to the MCP client with the authorization code
-  return Response.redirect(redirectTo, 302);
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: redirectTo,
+      "Set-Cookie": clearCookie(SESSION_COOKIE_NAME),
+    },
+  });
+}
+
+/**
+ * Start a /clients admin session for a signed-in admin
+ */
+async function startAdminSession(env: Env, user: SignedInUser): Promise<Response> {
+  if (!roleAllows(user.role, "admin")) {
+    return new Response("Forbidden: the clients page is restricted to admins.", {
+      status: 403,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+
+  const session: AdminSession = {
+    userId: user.userId,
+    email: user.email,
+    csrfToken: randomToken(),
+    expiresAt: Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000,
+  };
+
+  const headers = new Headers({ Location: "/clients" });
+  headers.append("Set-Cookie", clearCookie(SESSION_COOKIE_NAME));
+  headers.append(
+    "Set-Cookie",
+    await createEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, ADMIN_COOKIE_NAME, JSON.stringify(session), ADMIN_SESSION_TTL_SECONDS)
+  );
+  return new Response(null, { status: 302, headers });
+}
+
+/**
+ * Read a valid admin session from the request, or null
+ */
+async function readAdminSession(request: Request, env: Env): Promise<AdminSession | null> {
+  const value = await readEncryptedCookie(env.COOKIE_ENCRYPTION_KEY, request, ADMIN_COOKIE_NAME);
+  if (!value) {
+    return null;
+  }
+
+  const session = JSON.parse(value) as AdminSession;
+  return session.expiresAt > Date.now() ? session : null;
+}
+
+async function handleClientsPage(request: Request, env: Env): Promise<Response> {
+  const session = await readAdminSession(request, env);
+  if (!session) {
+    return startGoogleSignIn(request, env);
+  }
+
+  const clients: ClientInfo[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.OAUTH_PROVIDER.listClients({ cursor });
+    clients.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+
+  // Grants are listed per user; every user with a grant went through the consent screen
+  const approvals = await listApprovals(env.OAUTH_KV);
+  const userIds = new Set([session.userId, ...approvals.map((approval) => approval.userId)]);
+  const grants: ClientsPageData["grants"] = [];
+  for (const userId of userIds) {
+    let grantCursor: string | undefined;
+    do {
+      const page = await env.OAUTH_PROVIDER.listUserGrants(userId, { cursor: grantCursor });
+      grants.push(...page.items.map((grant) => ({ ...grant, email: grant.metadata?.email })));
+      grantCursor = page.cursor;
+    } while (grantCursor);
+  }
+
+  return renderClientsPage({
+    email: session.email,
+    csrfToken: session.csrfToken,
+    clients,
+    approvals,
+    grants,
+  });
+}
+
+async function handleClientsAction(request: Request, env: Env): Promise<Response> {
+  const session = await readAdminSession(request, env);
+  if (!session) {
+    return new Response("Admin session expired: reload /clients to sign in again", { status: 401 });
+  }
+
+  const form = await request.formData();
+  if (form.get("csrf_token") !== session.csrfToken) {
+    return new Response("Invalid CSRF token", { status: 403 });
+  }
+
+  const pathname = new URL(request.url).pathname;
+  const clientId = form.get("client_id");
+
+  if (pathname === "/clients/revoke-client" && typeof clientId === "string") {
+    await env.OAUTH_PROVIDER.deleteClient(clientId);
+    await deleteApprovals(env.OAUTH_KV, clientId);
+    console.log("[OAuth] Client deleted:", clientId);
+  } else if (pathname === "/clients/revoke-grant" && typeof clientId === "string") {
+    const grantId = form.get("grant_id");
+    const userId = form.get("user_id");
+    if (typeof grantId !== "string" || typeof userId !== "string") {
+      return new Response("Missing grant_id or user_id", { status: 400 });
+    }
+    await env.OAUTH_PROVIDER.revokeGrant(grantId, userId);
+    await deleteApprovals(env.OAUTH_KV, clientId, userId);
+    console.log("[OAuth] Grant revoked:", grantId);
+  } else {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new Response(null, { status: 303, headers: { Location: "/clients" } });
+}
+
+/**
+ * Random URL-safe token (used for PKCE verifiers, nonces and CSRF tokens)
+ */
+function randomToken(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * SHA-256 of a string, base64url-encoded (PKCE S256 challenge)
+ */
+async function sha256Base64Url(value: string): Promise<string> {
+  return base64UrlEncode(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))));
+}
+
+/**
+ * Base64 URL encode
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
 }
@@ -0,0 +1,126 @@
+/**
+ * Google ID token verification
+ *
+ * Verifies the RS256 signature of an OpenID Connect ID token against Google's
+ * published JWKS, and checks the issuer, audience, expiry and nonce.
+ */
+
+const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+
+// Tolerated clock difference when checking exp/iat
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface GoogleIdTokenClaims {
+  iss: string;
+  aud: string;
+  sub: string;
+  exp: number;
+  iat: number;
+  email: string;
+  email_verified: boolean;
+  hd?: string;
+  name?: string;
+  nonce?: string;
+}
+
+interface JwksCache {
+  keys: Map<string, CryptoKey>;
+  expiresAt: number;
+}
+
+let jwksCache: JwksCache | null = null;
+
+/**
+ * Fetch Google's signing keys, cached for as long as Google's Cache-Control allows
+ */
+async function getSigningKey(kid: string): Promise<CryptoKey> {
+  if (jwksCache && jwksCache.expiresAt > Date.now() && jwksCache.keys.has(kid)) {
+    return jwksCache.keys.get(kid)!;
+  }
+
+  // Unknown kid or stale cache: Google may have rotated its keys
+  const response = await fetch(GOOGLE_JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Google JWKS: ${response.status}`);
+  }
+
+  const jwks = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of jwks.keys) {
+    keys.set(
+      jwk.kid,
+      await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"])
+    );
+  }
+
+  const maxAge = Number(response.headers.get("Cache-Control")?.match(/max-age=(\d+)/)?.[1] || 3600);
+  jwksCache = { keys, expiresAt: Date.now() + maxAge * 1000 };
+
+  const key = keys.get(kid);
+  if (!key) {
+    throw new Error(`ID token signed with unknown key: ${kid}`);
+  }
+  return key;
+}
+
+/**
+ * Decode a base64url string to bytes
+ */
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Verify a Google ID token and return its claims
+ */
+export async function verifyGoogleIdToken(
+  idToken: string,
+  clientId: string,
+  expectedNonce?: string
+): Promise<GoogleIdTokenClaims> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Malformed ID token");
+  }
+  const [encodedHeader, encodedClaims, encodedSignature] = parts;
+
+  const decoder = new TextDecoder();
+  const header = JSON.parse(decoder.decode(base64UrlDecode(encodedHeader))) as { alg: string; kid: string };
+  if (header.alg !== "RS256") {
+    throw new Error(`Unexpected ID token algorithm: ${header.alg}`);
+  }
+
+  const key = await getSigningKey(header.kid);
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`)
+  );
+  if (!valid) {
+    throw new Error("Invalid ID token signature");
+  }
+
+  const claims = JSON.parse(decoder.decode(base64UrlDecode(encodedClaims))) as GoogleIdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!GOOGLE_ISSUERS.includes(claims.iss)) {
+    throw new Error(`Unexpected ID token issuer: ${claims.iss}`);
+  }
+  if (claims.aud !== clientId) {
+    throw new Error("ID token was issued for a different client");
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error("ID token has expired");
+  }
+  if (claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error("ID token was issued in the future");
+  }
+  if (expectedNonce !== undefined && claims.nonce !== expectedNonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+
+  return claims;
+}
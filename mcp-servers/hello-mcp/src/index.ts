@@ -1,228 +1,155 @@
-import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
-import { z } from "zod";
-import GoogleHandler from "./google-handler";
-import {
-  listPods,
-  getPodLogs,
-  describeResource,
-  queryCloudLogs,
-  type GCPConfig,
-} from "./gcp-tools";
+import { currentRole, type AccessPolicyEnv, type Role } from "./access-policy";
+import { ensureAuditTable, recordAudit } from "./audit";
+import { loadEnvironments, readableClient } from "./environments";
+import { GCPClient } from "./gcp-tools";
+import type { GitHubConfig } from "./github-tools";
+import { registerTools, type ToolDefinition } from "./tools/registry";
+import { basicTools } from "./tools/basic";
+import { auditTools } from "./tools/audit";
+import { kubernetesTools } from "./tools/kubernetes";
+import { loggingTools } from "./tools/logging";
+import { monitoringTools } from "./tools/monitoring";
+import { cloudSqlTools } from "./tools/cloudsql";
+import { imageTools } from "./tools/images";
+import { environmentTools, withEnvironments } from "./tools/environments";
+import { githubTools } from "./tools/github";
+import { registerAppResources, registerPlatformResources } from "./resources";
+import { registerPrompts } from "./prompts";
+import { createWorker } from "./worker";
+
+// GCP tool modules, each built once per environment
+const GCP_TOOL_MODULES = [kubernetesTools, loggingTools, monitoringTools, cloudSqlTools, imageTools];
+
+// Props passed from the OAuth handler via completeAuthorization
+type Props = {
+  userId: string;
+  accessToken: string;
+  email: string;
+  hostedDomain?: string;
+  role: Role;
+};
 
 // Environment interface
-interface Env {
+interface Env extends AccessPolicyEnv {
   GCP_SERVICE_ACCOUNT_KEY?: string;
   GCP_PROJECT_ID?: string;
   GCP_CLUSTER_NAME?: string;
   GCP_REGION?: string;
+  GKE_API_PROXY_URL?: string;
+  GKE_ALLOW_UNPINNED_TLS?: string;
+  GKE_WRITABLE_NAMESPACES?: string;
+  CLOUDSQL_INSTANCE?: string;
+  ARTIFACT_REGISTRY_REPOSITORY?: string;
+  GCP_ENVIRONMENTS?: string; // JSON map of named environments, see environments.ts
+  GITHUB_TOKEN?: string;
+  GITHUB_REPOSITORY?: string;
+  GITHUB_API_URL?: string;
 }
 
 // Define the MCP server with tools
-export class HelloMCP extends McpAgent {
+export class HelloMCP extends McpAgent<Env, unknown, Props> {
   server = new McpServer({
     name: "hello-mcp",
     version: "1.0.0",
   });
 
+  // Shared across tool calls for the lifetime of this Durable Object instance, by environment name
+  private gcpClients = new Map<string, GCPClient>();
+
+  /**
+   * The session's role under the current access policy. The props carry the
+   * role from when the client authorized, which may since have changed.
+   */
+  private async sessionRole(): Promise<Role | undefined> {
+    if (!this.props) {
+      return undefined;
+    }
+    const role = await currentRole(this.env, this.props);
+    if (!role) {
+      throw new Error(`${this.props.email} is no longer allowed to use this MCP server`);
+    }
+    if (role !== this.props.role) {
+      console.log(`[MCP] Role changed from ${this.props.role} to ${role} since authorization`);
+    }
+    return role;
+  }
+
   async init() {
-    // Get GCP configuration from environment
+    const role = await this.sessionRole();
+    const sql = this.sql.bind(this);
+    ensureAuditTable(sql);
+
+    // Get GCP environments from the Worker's vars and secrets
     console.log("[MCP] Initializing with env keys:", Object.keys(this.env || {}));
     console.log("[MCP] GCP_SERVICE_ACCOUNT_KEY present:", !!this.env.GCP_SERVICE_ACCOUNT_KEY);
 
-    const gcpConfig: GCPConfig | null = this.env.GCP_SERVICE_ACCOUNT_KEY
+    const gcp = loadEnvironments(this.env as unknown as Record<string, unknown>);
+    for (const environment of gcp?.environments || []) {
+      if (!this.gcpClients.has(environment.name)) {
+        this.gcpClients.set(environment.name, new GCPClient(environment.config));
+      }
+    }
+    const gcpClients = this.gcpClients;
+
+    const [githubOwner, githubRepo] = (this.env.GITHUB_REPOSITORY || "jerome3o/tech-island").split("/");
+    const githubConfig: GitHubConfig | null = this.env.GITHUB_TOKEN
       ? {
-          serviceAccountKey: this.env.GCP_SERVICE_ACCOUNT_KEY,
-          projectId: this.env.GCP_PROJECT_ID || "", // Will use project from service account key if empty
-          clusterName: this.env.GCP_CLUSTER_NAME || "tech-island",
-          region: this.env.GCP_REGION || "europe-west2",
+          token: this.env.GITHUB_TOKEN,
+          owner: githubOwner,
+          repo: githubRepo,
+          apiUrl: this.env.GITHUB_API_URL,
         }
       : null;
 
-    console.log("[MCP] GCP config created:", !!gcpConfig);
-    console.log("[MCP] Will add GCP tools:", !!gcpConfig);
-
-    // Simple greeting tool
-    this.server.tool(
-      "hello",
-      { name: z.string() },
-      async ({ name }) => ({
-        content: [{ type: "text", text: `Hello, ${name}! This MCP server is working correctly.` }],
-      })
-    );
-
-    // Echo tool for testing
-    this.server.tool(
-      "echo",
-      { message: z.string() },
-      async ({ message }) => ({
-        content: [{ type: "text", text: `Echo: ${message}` }],
-      })
-    );
-
-    // Server info tool
-    this.server.tool(
-      "server_info",
-      {},
-      async () => ({
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              name: "hello-mcp",
-              version: "1.0.0",
-              description: "MCP server for Tech Island with GCP/GKE access",
-              timestamp: new Date().toISOString(),
-              gcpEnabled: !!gcpConfig,
-            }, null, 2),
-          },
-        ],
-      })
-    );
-
-    // GCP/GKE Tools - only add if credentials are configured
-    if (gcpConfig) {
-      // List pods in a namespace
-      this.server.tool(
-        "get_pods",
-        {
-          namespace: z.string().default("apps").describe("Kubernetes namespace"),
-          labelSelector: z.string().optional().describe("Label selector (e.g., 'app=my-app')"),
-        },
-        async ({ namespace, labelSelector }) => {
-          try {
-            const pods = await listPods(gcpConfig, namespace, labelSelector);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(pods, null, 2),
-                },
-              ],
-            };
-          } catch (error: any) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error getting pods: ${error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        }
-      );
+    console.log("[MCP] GCP environments:", gcp?.environments.map((environment) => environment.name) ?? []);
 
-      // Get pod logs
-      this.server.tool(
-        "get_pod_logs",
-        {
-          pod: z.string().describe("Pod name"),
-          namespace: z.string().default("apps").describe("Kubernetes namespace"),
-          container: z.string().optional().describe("Container name (if pod has multiple)"),
-          tail: z.number().default(100).describe("Number of lines to tail"),
-        },
-        async ({ pod, namespace, container, tail }) => {
-          try {
-            const logs = await getPodLogs(gcpConfig, pod, namespace, container, tail);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: logs,
-                },
-              ],
-            };
-          } catch (error: any) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error getting pod logs: ${error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        }
-      );
+    const tools: ToolDefinition<any>[] = [
+      ...basicTools(() => ({
+        gcpEnabled: !!gcp,
+        githubEnabled: !!githubConfig,
+        role,
+      })),
+      ...auditTools(sql),
+    ];
 
-      // Describe a Kubernetes resource
-      this.server.tool(
-        "describe_resource",
-        {
-          kind: z.enum(["pod", "deployment", "service", "ingress"]).describe("Resource kind"),
-          name: z.string().describe("Resource name"),
-          namespace: z.string().default("apps").describe("Kubernetes namespace"),
-        },
-        async ({ kind, name, namespace }) => {
-          try {
-            const resource = await describeResource(gcpConfig, kind, name, namespace);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(resource, null, 2),
-                },
-              ],
-            };
-          } catch (error: any) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error describing ${kind}/${name}: ${error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        }
+    // GCP/GKE Tools - only add if credentials are configured. Each takes an
+    // optional environment argument and checks that environment's roles.
+    if (gcp) {
+      tools.push(
+        ...environmentTools(gcp, gcpClients, role, GCP_TOOL_MODULES),
+        ...GCP_TOOL_MODULES.flatMap((factory) => withEnvironments(gcp, gcpClients, role, factory))
       );
+    }
 
-      // Query Cloud Logging
-      this.server.tool(
-        "query_cloud_logs",
-        {
-          filter: z.string().describe("Cloud Logging filter (e.g., 'resource.type=\"k8s_container\"')"),
-          limit: z.number().default(50).describe("Maximum number of log entries to return"),
-        },
-        async ({ filter, limit }) => {
-          try {
-            const logs = await queryCloudLogs(gcpConfig, filter, limit);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(logs, null, 2),
-                },
-              ],
-            };
-          } catch (error: any) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error querying logs: ${error.message}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-        }
-      );
+    // GitHub Actions tools - only add if a token is configured
+    if (githubConfig) {
+      tools.push(...githubTools(githubConfig));
     }
+
+    // Resources and prompts: platform docs always, live app state and debugging prompts
+    // for the default environment when GCP is configured and the session may read it
+    registerPlatformResources(this.server);
+    const defaultClient = gcp && readableClient(gcp, gcpClients, role);
+    if (defaultClient) {
+      registerAppResources(this.server, defaultClient);
+      registerPrompts(this.server, defaultClient, githubConfig);
+    }
+
+    // Write-capable tools are only registered for sessions whose role allows them,
+    // and every invocation is written to the audit log
+    registerTools(this.server, tools, {
+      role,
+      onCall: (call) =>
+        recordAudit(sql, {
+          userId: this.props?.userId,
+          email: this.props?.email,
+          ...call,
+        }),
+    });
   }
 }
 
 // Export the OAuth-wrapped worker
-export default new OAuthProvider({
-  apiRoute: "/sse",
-  apiHandler: HelloMCP.serveSSE("/sse"),
-  defaultHandler: GoogleHandler,
-  authorizeEndpoint: "/authorize",
-  tokenEndpoint: "/token",
-  clientRegistrationEndpoint: "/register",
-});
+export default createWorker((transport, path) => (transport === "sse" ? HelloMCP.serveSSE(path) : HelloMCP.serve(path)));
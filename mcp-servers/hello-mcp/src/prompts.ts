@@ -0,0 +1,234 @@
+/**
+ * MCP prompts for guided debugging
+ *
+ * Each prompt gathers the relevant cluster, log and CI state up front and
+ * returns it pre-filled, so the conversation starts from the findings
+ * rather than from a round of tool calls.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import {
+  listPods,
+  listApps,
+  getPodLogs,
+  getAppIngress,
+  describeResource,
+  queryCloudLogs,
+  buildLogFilter,
+  getRolloutStatus,
+  getEvents,
+  type GCPClient,
+  type PodDiagnostics,
+} from "./gcp-tools";
+import { getCommitRuns, type GitHubConfig } from "./github-tools";
+
+// Namespace the deploy workflow puts apps in
+const APP_NAMESPACE = "apps";
+
+// git's shortest abbreviated commit SHA
+const MIN_SHA_LENGTH = 7;
+
+// Where the shared oauth2-proxy runs (platform/oauth2-proxy)
+const OAUTH2_PROXY_NAMESPACE = "oauth2-proxy";
+
+// Log lines fetched per unhealthy pod
+const POD_LOG_TAIL_LINES = 50;
+
+type Finding<T> = T | { error: string };
+
+/**
+ * Run one lookup, reporting its failure as a finding instead of failing the prompt
+ */
+async function gather<T>(lookup: () => Promise<T>): Promise<Finding<T>> {
+  try {
+    return await lookup();
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
+
+/**
+ * A titled section with its finding as a JSON block
+ */
+function section(title: string, finding: unknown): string {
+  return `## ${title}\n\n\`\`\`json\n${JSON.stringify(finding, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Recent logs of pods that aren't ready, from the previous container when it has restarted
+ */
+async function unhealthyPodLogs(client: GCPClient, pods: PodDiagnostics[]): Promise<Record<string, string>> {
+  const logs: Record<string, string> = {};
+  for (const pod of pods.filter((p) => !p.podReady)) {
+    const previous = pod.restarts > 0;
+    logs[`${pod.name}${previous ? " (previous)" : ""}`] = await getPodLogs(client, pod.name, APP_NAMESPACE, {
+      tailLines: POD_LOG_TAIL_LINES,
+      previous,
+    }).catch((error) => `<error fetching logs: ${error.message}>`);
+  }
+  return logs;
+}
+
+/**
+ * The parts of an Ingress that matter for reachability: hosts, TLS, auth and address
+ */
+function summariseIngress(ingress: any) {
+  const annotations = ingress.metadata.annotations || {};
+  return {
+    name: ingress.metadata.name,
+    hosts: (ingress.spec.rules || []).map((rule: any) => rule.host),
+    tls: ingress.spec.tls || [],
+    clusterIssuer: annotations["cert-manager.io/cluster-issuer"],
+    authUrl: annotations["nginx.ingress.kubernetes.io/auth-url"],
+    addresses: (ingress.status?.loadBalancer?.ingress || []).map((lb: any) => lb.ip || lb.hostname),
+    events: ingress.events,
+  };
+}
+
+/**
+ * Pod summary without per-container detail, for a compact overview
+ */
+function summarisePods(pods: PodDiagnostics[]) {
+  return pods.map((pod) => ({
+    name: pod.name,
+    status: pod.status,
+    ready: pod.ready,
+    restarts: pod.restarts,
+    age: pod.age,
+    images: pod.containers.map((c) => c.image),
+    lastTermination: pod.containers.find((c) => c.lastTermination)?.lastTermination,
+  }));
+}
+
+/**
+ * Error-level Cloud Logging entries for the app from the last hour
+ */
+function recentErrors(client: GCPClient, app: string) {
+  return queryCloudLogs(
+    client,
+    buildLogFilter(client, { app, namespace: APP_NAMESPACE, minSeverity: "ERROR", sinceMinutes: 60 }),
+    20
+  ).then((page) => page.entries.map((entry) => ({ timestamp: entry.timestamp, severity: entry.severity, message: entry.message })));
+}
+
+/**
+ * Gather the findings for diagnose_app
+ */
+export async function diagnoseAppPrompt(client: GCPClient, app: string): Promise<string> {
+  const pods = await gather(async () => (await listPods(client, APP_NAMESPACE, `app=${app}`)).items);
+  const [podLogs, ingress, service, errors, oauth2Proxy] = await Promise.all([
+    "error" in pods ? pods : gather(() => unhealthyPodLogs(client, pods)),
+    gather(async () => summariseIngress(await getAppIngress(client, app, APP_NAMESPACE, true))),
+    gather(async () => {
+      const service = await describeResource(client, "service", app, APP_NAMESPACE);
+      return { type: service.spec.type, selector: service.spec.selector, ports: service.spec.ports };
+    }),
+    gather(() => recentErrors(client, app)),
+    gather(async () => summarisePods((await listPods(client, OAUTH2_PROXY_NAMESPACE, "app=oauth2-proxy")).items)),
+  ]);
+
+  return [
+    `Diagnose why the app "${app}" is unhealthy or unreachable (e.g. returning 502/503).`,
+    "The findings below were gathered just now. Work through them in order: pod states and crash logs, " +
+      "recent errors, the Service selector and ports, the Ingress hosts and TLS, and finally the shared " +
+      "oauth2-proxy that authenticates requests. Name the most likely root cause and the fix, and say which " +
+      "tool calls would confirm it if the findings aren't conclusive.",
+    section("Pods", "error" in pods ? pods : summarisePods(pods)),
+    section("Logs from unhealthy pods", podLogs),
+    section("Recent errors (last hour, Cloud Logging)", errors),
+    section("Service", service),
+    section("Ingress and TLS", ingress),
+    section("oauth2-proxy pods", oauth2Proxy),
+  ].join("\n\n");
+}
+
+/**
+ * Whether an image tag names the commit, allowing either to be abbreviated.
+ * Both must be at least as long as git's shortest abbreviation, so an empty
+ * or short tag such as "v3" can't match by accident.
+ */
+function tagMatchesCommit(tag: string, sha: string): boolean {
+  const [a, b] = [tag.toLowerCase(), sha.toLowerCase()];
+  return Math.min(a.length, b.length) >= MIN_SHA_LENGTH && (a.startsWith(b) || b.startsWith(a));
+}
+
+/**
+ * Gather the findings for investigate_deploy
+ */
+export async function investigateDeployPrompt(
+  client: GCPClient,
+  github: GitHubConfig | null,
+  app: string,
+  sha: string
+): Promise<string> {
+  const [runs, rollout, deployment, pods, events, errors] = await Promise.all([
+    github ? gather(() => getCommitRuns(github, sha)) : { error: "GitHub tools are not configured (MCP_GITHUB_TOKEN)" },
+    gather(() => getRolloutStatus(client, app, APP_NAMESPACE)),
+    gather(() => describeResource(client, "deployment", app, APP_NAMESPACE)),
+    gather(async () => (await listPods(client, APP_NAMESPACE, `app=${app}`)).items),
+    gather(() => getEvents(client, APP_NAMESPACE, { app, limit: 20 })),
+    gather(() => recentErrors(client, app)),
+  ]);
+
+  // deploy-app.yml tags images with the full commit SHA
+  const images: string[] = "error" in deployment
+    ? []
+    : deployment.spec.template.spec.containers.map((container: any) => container.image);
+  const deployedTag = images.map((image) => image.split(":").pop() || "").find((tag) => tagMatchesCommit(tag, sha));
+
+  return [
+    `Investigate why commit ${sha} did not go live for the app "${app}".`,
+    "The findings below were gathered just now. Check in order: whether the deploy workflow ran and " +
+      "succeeded for this commit, whether the Deployment's image points at it, whether the rollout " +
+      "completed, and whether the new pods are crashing. Name the step where the deploy stopped and the fix.",
+    section("Deployed image", {
+      images,
+      matchesCommit: deployedTag !== undefined,
+      revision: "error" in deployment ? undefined : deployment.metadata.annotations?.["deployment.kubernetes.io/revision"],
+    }),
+    section("GitHub Actions runs for the commit", runs),
+    section("Rollout", rollout),
+    section("Pods", "error" in pods ? pods : summarisePods(pods)),
+    section("Events", events),
+    section("Recent errors (last hour, Cloud Logging)", errors),
+  ].join("\n\n");
+}
+
+/**
+ * Register the debugging prompts
+ */
+export function registerPrompts(server: McpServer, client: GCPClient, github: GitHubConfig | null): void {
+  const appArg = () =>
+    completable(z.string().describe("App name (matches the 'app' label)"), async (value) =>
+      (await listApps(client, APP_NAMESPACE).catch(() => [])).filter((app) => app.startsWith(value || ""))
+    );
+
+  server.registerPrompt(
+    "diagnose_app",
+    {
+      title: "Diagnose an app",
+      description: "Why is my app returning errors? Pre-filled with pod states, crash logs, recent errors, Ingress/TLS and oauth2-proxy health",
+      argsSchema: { app: appArg() },
+    },
+    async ({ app }) => ({
+      messages: [{ role: "user", content: { type: "text", text: await diagnoseAppPrompt(client, app) } }],
+    })
+  );
+
+  server.registerPrompt(
+    "investigate_deploy",
+    {
+      title: "Investigate a deploy",
+      description: "Why didn't my deploy go live? Pre-filled with the commit's workflow runs, deployed image, rollout, pods and events",
+      argsSchema: {
+        app: appArg(),
+        sha: z.string().describe("Commit SHA that should be live"),
+      },
+    },
+    async ({ app, sha }) => ({
+      messages: [{ role: "user", content: { type: "text", text: await investigateDeployPrompt(client, github, app, sha) } }],
+    })
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * OAuth protected-resource metadata (RFC 9728)
+ *
+ * Lets MCP clients discover which authorization server protects each MCP
+ * endpoint, and which transports this server offers.
+ */
+
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// MCP endpoints, by transport. Both share the same tools and OAuth protection.
+export const MCP_ENDPOINTS = {
+  "streamable-http": "/mcp",
+  sse: "/sse",
+} as const;
+
+/**
+ * Match a metadata request, returning the MCP endpoint path it describes
+ *
+ * The bare well-known path describes the server as a whole; a suffixed path
+ * (e.g. /.well-known/oauth-protected-resource/mcp) describes one endpoint.
+ */
+export function matchProtectedResourcePath(pathname: string): string | null {
+  if (pathname === PROTECTED_RESOURCE_METADATA_PATH) {
+    return "";
+  }
+  const suffix = pathname.slice(PROTECTED_RESOURCE_METADATA_PATH.length);
+  if (pathname.startsWith(PROTECTED_RESOURCE_METADATA_PATH) && Object.values(MCP_ENDPOINTS).includes(suffix as any)) {
+    return suffix;
+  }
+  return null;
+}
+
+/**
+ * Build the metadata document for the server (endpointPath "") or one MCP endpoint
+ */
+export function protectedResourceMetadata(origin: string, endpointPath: string) {
+  return {
+    resource: `${origin}${endpointPath}`,
+    authorization_servers: [origin],
+    bearer_methods_supported: ["header"],
+    resource_name: "hello-mcp",
+    // Non-standard: lets clients pick a transport without probing
+    mcp_endpoints: Object.fromEntries(
+      Object.entries(MCP_ENDPOINTS).map(([transport, path]) => [transport, `${origin}${path}`])
+    ),
+  };
+}
+
+/**
+ * Point unauthenticated MCP clients at the metadata for the endpoint they called
+ */
+export function withResourceMetadataChallenge(response: Response, request: Request): Response {
+  const challenge = response.headers.get("WWW-Authenticate");
+  if (response.status !== 401 || !challenge) {
+    return response;
+  }
+
+  const url = new URL(request.url);
+  const endpointPath = Object.values(MCP_ENDPOINTS).find((path) => url.pathname.startsWith(path));
+  if (!endpointPath) {
+    return response;
+  }
+
+  const headers = new Headers(response.headers);
+  headers.set(
+    "WWW-Authenticate",
+    `${challenge}, resource_metadata="${url.origin}${PROTECTED_RESOURCE_METADATA_PATH}${endpointPath}"`
+  );
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
@@ -0,0 +1,115 @@
+/**
+ * MCP resources
+ *
+ * Live app objects under app://{name}/..., and the platform docs and app
+ * template manifests under platform://, so clients can attach them as
+ * context without a tool call. URIs are stable per app, so a client can
+ * re-read the same URI to refresh its view.
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { describeResource, getAppIngress, getAppStatus, listApps, type GCPClient } from "./gcp-tools";
+import creatingAnAppDoc from "../../../docs/creating-an-app.md";
+import templateDeployment from "../../../apps/_template/k8s/deployment.yaml";
+import templateService from "../../../apps/_template/k8s/service.yaml";
+import templateIngress from "../../../apps/_template/k8s/ingress.yaml";
+import templateIngressOAuth2 from "../../../apps/_template/k8s/ingress-oauth2.yaml";
+import templateOAuth2ProxyService from "../../../apps/_template/k8s/oauth2-proxy-service.yaml";
+
+// Namespace the deploy workflow puts apps in
+const APP_NAMESPACE = "apps";
+
+interface AppView {
+  title: string;
+  description: string;
+  read: (client: GCPClient, app: string) => Promise<unknown>;
+}
+
+const APP_VIEWS: Record<string, AppView> = {
+  deployment: {
+    title: "App Deployment",
+    description: "The app's Deployment object",
+    read: (client, app) => describeResource(client, "deployment", app, APP_NAMESPACE),
+  },
+  service: {
+    title: "App Service",
+    description: "The app's Service object",
+    read: (client, app) => describeResource(client, "service", app, APP_NAMESPACE),
+  },
+  ingress: {
+    title: "App Ingress",
+    description: "The app's Ingress object",
+    read: (client, app) => getAppIngress(client, app, APP_NAMESPACE),
+  },
+  status: {
+    title: "App status",
+    description: "Live rollout status, pods and recent events for the app",
+    read: (client, app) => getAppStatus(client, app, APP_NAMESPACE),
+  },
+};
+
+const PLATFORM_RESOURCES = [
+  {
+    name: "creating-an-app",
+    uri: "platform://docs/creating-an-app",
+    title: "Creating an app",
+    description: "How to create and deploy a new app on the platform (docs/creating-an-app.md)",
+    mimeType: "text/markdown",
+    text: creatingAnAppDoc,
+  },
+  ...Object.entries({
+    "deployment.yaml": templateDeployment,
+    "service.yaml": templateService,
+    "ingress.yaml": templateIngress,
+    "ingress-oauth2.yaml": templateIngressOAuth2,
+    "oauth2-proxy-service.yaml": templateOAuth2ProxyService,
+  }).map(([file, text]) => ({
+    name: `template-${file}`,
+    uri: `platform://templates/k8s/${file}`,
+    title: `App template: k8s/${file}`,
+    description: `apps/_template/k8s/${file}, the starting point for a new app's manifests`,
+    mimeType: "application/yaml",
+    text,
+  })),
+];
+
+/**
+ * Register the app://{name}/{deployment,service,ingress,status} resource templates
+ */
+export function registerAppResources(server: McpServer, client: GCPClient): void {
+  for (const [view, { title, description, read }] of Object.entries(APP_VIEWS)) {
+    const template = new ResourceTemplate(`app://{name}/${view}`, {
+      list: async () => ({
+        resources: (await listApps(client, APP_NAMESPACE)).map((app) => ({
+          uri: `app://${app}/${view}`,
+          name: `${app} ${view}`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        name: async (value) => (await listApps(client, APP_NAMESPACE)).filter((app) => app.startsWith(value)),
+      },
+    });
+
+    server.registerResource(`app-${view}`, template, { title, description, mimeType: "application/json" }, async (uri, { name }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(await read(client, String(name)), null, 2),
+        },
+      ],
+    }));
+  }
+}
+
+/**
+ * Register the platform docs and app template manifests
+ */
+export function registerPlatformResources(server: McpServer): void {
+  for (const { name, uri, title, description, mimeType, text } of PLATFORM_RESOURCES) {
+    server.registerResource(name, uri, { title, description, mimeType }, async () => ({
+      contents: [{ uri, mimeType, text }],
+    }));
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Encrypted cookies for the OAuth and admin pages
+ *
+ * Values are encrypted with AES-GCM under a key derived from
+ * COOKIE_ENCRYPTION_KEY. The session cookie binds a sign-in (and its consent
+ * step) to the browser that started it, so a callback URL can't be replayed
+ * from another browser; the admin cookie holds the /clients page session.
+ */
+
+export const SESSION_COOKIE_NAME = "__Host-mcp-oauth-session";
+export const ADMIN_COOKIE_NAME = "__Host-mcp-admin-session";
+
+/**
+ * Derive an AES-GCM key from the configured secret
+ */
+async function getCookieKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return crypto.subtle.importKey("raw", digest, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encode bytes as base64url
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+/**
+ * Decode base64url to bytes
+ */
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Build a Set-Cookie header value holding an encrypted value
+ */
+export async function createEncryptedCookie(
+  secret: string,
+  name: string,
+  plaintext: string,
+  maxAgeSeconds: number
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getCookieKey(secret),
+    new TextEncoder().encode(plaintext)
+  );
+
+  const value = `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+  return `${name}=${value}; Path=/; Max-Age=${maxAgeSeconds}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+/**
+ * Set-Cookie header value that removes a cookie
+ */
+export function clearCookie(name: string): string {
+  return `${name}=; Path=/; Max-Age=0; HttpOnly; Secure; SameSite=Lax`;
+}
+
+/**
+ * Read and decrypt a cookie from the request, or null if it is missing or
+ * was not produced with this secret
+ */
+export async function readEncryptedCookie(secret: string, request: Request, name: string): Promise<string | null> {
+  const cookies = request.headers.get("Cookie") || "";
+  const value = cookies
+    .split(";")
+    .map((cookie) => cookie.trim())
+    .find((cookie) => cookie.startsWith(`${name}=`))
+    ?.slice(name.length + 1);
+
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const [iv, ciphertext] = value.split(".").map(fromBase64Url);
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, await getCookieKey(secret), ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
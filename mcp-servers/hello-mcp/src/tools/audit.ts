@@ -0,0 +1,26 @@
+/**
+ * Audit log query tool
+ */
+
+import { z } from "zod";
+import { queryAudit, type SqlTag } from "../audit";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function auditTools(sql: SqlTag): ToolDefinition<any>[] {
+  return [
+    // Query the audit log of tool invocations
+    defineTool({
+      name: "audit_log",
+      description: "Recent tool invocations recorded in this session's audit log",
+      schema: {
+        email: z.string().optional().describe("Only calls made by this user"),
+        tool: z.string().optional().describe("Only calls to this tool"),
+        since: z.string().optional().describe("Only calls at or after this ISO timestamp"),
+        until: z.string().optional().describe("Only calls at or before this ISO timestamp"),
+        limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of records to return"),
+      },
+      handler: async (query) => queryAudit(sql, query),
+      errorMessage: "Error querying audit log",
+    }),
+  ];
+}
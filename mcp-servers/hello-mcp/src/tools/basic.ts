@@ -0,0 +1,38 @@
+/**
+ * Basic tools for checking the MCP server is up
+ */
+
+import { z } from "zod";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function basicTools(getInfo: () => Record<string, unknown>): ToolDefinition<any>[] {
+  return [
+    // Simple greeting tool
+    defineTool({
+      name: "hello",
+      schema: { name: z.string() },
+      handler: async ({ name }) => `Hello, ${name}! This MCP server is working correctly.`,
+    }),
+
+    // Echo tool for testing
+    defineTool({
+      name: "echo",
+      schema: { message: z.string() },
+      handler: async ({ message }) => `Echo: ${message}`,
+    }),
+
+    // Server info tool
+    defineTool({
+      name: "server_info",
+      schema: {},
+      handler: async () => ({
+        name: "hello-mcp",
+        version: "1.0.0",
+        description: "MCP server for Tech Island with GCP/GKE access",
+        timestamp: new Date().toISOString(),
+        ...getInfo(),
+      }),
+      structured: true,
+    }),
+  ];
+}
@@ -0,0 +1,72 @@
+/**
+ * Cloud SQL tools: per-app databases on the shared instance
+ */
+
+import { z } from "zod";
+import { OPERATION_TIMEOUT_MS, provisionAppDatabase, teardownAppDatabase } from "../cloudsql-tools";
+import type { GCPClient } from "../gcp-tools";
+import { KUBE_NAME, SECRET_KEY } from "./kubernetes";
+import { defineTool, type ToolDefinition } from "./registry";
+
+// Provisioning and teardown each run up to two Cloud SQL operations (the database,
+// then the user), and each may wait its full deadline. The margin covers the
+// lookups before them and the secret write after.
+const DATABASE_TOOL_TIMEOUT_MS = 2 * OPERATION_TIMEOUT_MS + 60 * 1000;
+
+const APP_NAME = z
+  .string()
+  .regex(/^[a-z][a-z0-9-]*$/, "App names are lowercase letters, digits and hyphens")
+  .describe("App name (matches the 'app' label); the database and user are named after it with '-' as '_'");
+
+export function cloudSqlTools(client: GCPClient): ToolDefinition<any>[] {
+  return [
+    // Give an app its own database and user
+    defineTool({
+      name: "provision_app_database",
+      description:
+        "Create a Postgres database and user with a generated password for an app on the shared Cloud SQL instance, " +
+        "and write DATABASE_URL into the app's Kubernetes secret. Idempotent: existing databases and users are kept " +
+        "unless rotatePassword is set. Returns the connection details; the password only when it isn't written to a secret",
+      schema: {
+        app: APP_NAME,
+        namespace: z.string().default("apps").describe("Kubernetes namespace of the app's secret"),
+        writeSecret: z.boolean().default(true).describe("Write the connection URL into the app's secret"),
+        secretName: KUBE_NAME.optional().describe("Secret to write (defaults to <app>-secrets)"),
+        secretKey: SECRET_KEY.default("DATABASE_URL").describe("Secret key for the connection URL"),
+        rotatePassword: z.boolean().default(false).describe("Set a new password if the user already exists"),
+        restart: z.boolean().default(false).describe("Restart the app's Deployment after writing the secret"),
+      },
+      handler: async ({ app, ...options }) => provisionAppDatabase(client, app, options),
+      requiredRole: "operator",
+      timeoutMs: DATABASE_TOOL_TIMEOUT_MS,
+      errorMessage: ({ app }) => `Error provisioning database for ${app}`,
+      structured: true,
+    }),
+
+    // Drop an app's database and user
+    defineTool({
+      name: "teardown_app_database",
+      description:
+        "Drop an app's Postgres database (and all its data) and user from the shared Cloud SQL instance, and remove " +
+        "DATABASE_URL from the app's secret. Skips anything already gone",
+      schema: {
+        app: APP_NAME,
+        confirm: z.string().describe("Must repeat the app name, since the database's data is deleted"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace of the app's secret"),
+        removeSecretKey: z.boolean().default(true).describe("Remove the connection URL from the app's secret"),
+        secretName: KUBE_NAME.optional().describe("Secret holding the URL (defaults to <app>-secrets)"),
+        secretKey: SECRET_KEY.default("DATABASE_URL").describe("Secret key holding the connection URL"),
+      },
+      handler: async ({ app, confirm, ...options }) => {
+        if (confirm !== app) {
+          throw new Error(`confirm must be "${app}" to drop its database`);
+        }
+        return teardownAppDatabase(client, app, options);
+      },
+      requiredRole: "admin",
+      timeoutMs: DATABASE_TOOL_TIMEOUT_MS,
+      errorMessage: ({ app }) => `Error tearing down database for ${app}`,
+      structured: true,
+    }),
+  ];
+}
@@ -0,0 +1,99 @@
+/**
+ * GCP environment tools: the environment argument on every GCP tool, and
+ * list_environments
+ */
+
+import { z } from "zod";
+import { roleAllows, type Role } from "../access-policy";
+import { environmentRole, type GCPEnvironments } from "../environments";
+import { ForbiddenError } from "../errors";
+import type { GCPClient } from "../gcp-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+type ToolFactory = (client: GCPClient) => ToolDefinition<any>[];
+
+/**
+ * Build a GCP tool module once per environment and merge each tool's copies
+ * into one tool with an optional environment argument. Calls are checked
+ * against the environment's roles before being handed to that environment's
+ * copy, and tools no environment lets the session run are left out. Each
+ * tool keeps its own requiredRole, which still marks it as a write.
+ */
+export function withEnvironments(
+  gcp: GCPEnvironments,
+  clients: Map<string, GCPClient>,
+  role: Role | undefined,
+  factory: ToolFactory
+): ToolDefinition<any>[] {
+  const names = gcp.environments.map((environment) => environment.name) as [string, ...string[]];
+  const copies = new Map(gcp.environments.map((environment) => [environment.name, factory(clients.get(environment.name)!)]));
+
+  return copies.get(gcp.defaultEnvironment)!.flatMap((tool, position): ToolDefinition<any>[] => {
+    const required = new Map(gcp.environments.map((environment) => [environment.name, environmentRole(environment, tool.requiredRole)]));
+    // Only hide the tool when no environment would let this session run it
+    if (![...required.values()].some((environmentRequired) => roleAllows(role, environmentRequired))) {
+      return [];
+    }
+
+    return [
+      {
+        ...tool,
+        schema: {
+          ...tool.schema,
+          environment: z.enum(names).optional().describe(`GCP environment (default: ${gcp.defaultEnvironment}; see list_environments)`),
+        },
+        handler: async ({ environment = gcp.defaultEnvironment, ...args }) => {
+          if (!roleAllows(role, required.get(environment)!)) {
+            throw new ForbiddenError(`${tool.name} in the ${environment} environment requires the ${required.get(environment)} role`);
+          }
+          return copies.get(environment)![position].handler(args);
+        },
+      },
+    ];
+  });
+}
+
+export function environmentTools(
+  gcp: GCPEnvironments,
+  clients: Map<string, GCPClient>,
+  role: Role | undefined,
+  factories: ToolFactory[]
+): ToolDefinition<any>[] {
+  // Write tools and their own roles, e.g. teardown_app_database needs admin anywhere
+  const writeTools = factories
+    .flatMap((factory) => factory(clients.get(gcp.defaultEnvironment)!))
+    .filter((tool) => tool.requiredRole)
+    .map((tool) => [tool.name, tool.requiredRole!] as const);
+
+  return [
+    // List the environments GCP tools can target
+    defineTool({
+      name: "list_environments",
+      description:
+        "GCP environments the GCP tools can target with their environment argument, with each one's project, cluster, " +
+        "the role each write tool needs there and which of them this session can run",
+      schema: {},
+      handler: async () => ({
+        defaultEnvironment: gcp.defaultEnvironment,
+        environments: gcp.environments.map((environment) => ({
+          name: environment.name,
+          default: environment.name === gcp.defaultEnvironment,
+          projectId: clients.get(environment.name)!.projectId,
+          clusterName: environment.config.clusterName,
+          region: environment.config.region,
+          roles: {
+            read: environmentRole(environment),
+            writeTools: Object.fromEntries(writeTools.map(([name, toolRole]) => [name, environmentRole(environment, toolRole)])),
+          },
+          access: {
+            read: roleAllows(role, environmentRole(environment)),
+            writeTools: writeTools
+              .filter(([, toolRole]) => roleAllows(role, environmentRole(environment, toolRole)))
+              .map(([name]) => name),
+          },
+        })),
+      }),
+      structured: true,
+    }),
+  ];
+}
@@ -0,0 +1,67 @@
+/**
+ * GitHub Actions tools
+ */
+
+import { z } from "zod";
+import {
+  listWorkflowRuns,
+  getCommitRuns,
+  getJobLogTail,
+  rerunFailedJobs,
+  type GitHubConfig,
+} from "../github-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function githubTools(config: GitHubConfig): ToolDefinition<any>[] {
+  return [
+    // List recent workflow runs
+    defineTool({
+      name: "list_workflow_runs",
+      description: "Recent GitHub Actions runs, filtered by workflow file and branch",
+      schema: {
+        workflow: z.string().optional().describe("Workflow file name (e.g., 'deploy-app.yml')"),
+        branch: z.string().optional().describe("Branch name (e.g., 'main')"),
+        limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of runs to return"),
+      },
+      handler: async ({ workflow, branch, limit }) => listWorkflowRuns(config, workflow, branch, limit),
+      errorMessage: "Error listing workflow runs",
+      structured: true,
+    }),
+
+    // Get workflow run, job and step status for a commit
+    defineTool({
+      name: "get_commit_runs",
+      description: "Run, job and step status for every workflow triggered by a commit",
+      schema: {
+        sha: z.string().describe("Commit SHA"),
+      },
+      handler: async ({ sha }) => getCommitRuns(config, sha),
+      errorMessage: ({ sha }) => `Error getting runs for ${sha}`,
+      structured: true,
+    }),
+
+    // Get the tail of a job's log
+    defineTool({
+      name: "get_job_log",
+      description: "Tail of a job's log and the name of its failing step",
+      schema: {
+        jobId: z.number().int().describe("Job ID (from get_commit_runs)"),
+        tail: z.number().int().min(1).max(2000).default(100).describe("Number of lines to tail"),
+      },
+      handler: async ({ jobId, tail }) => getJobLogTail(config, jobId, tail),
+      errorMessage: ({ jobId }) => `Error getting log for job ${jobId}`,
+    }),
+
+    // Re-run failed jobs of a workflow run
+    defineTool({
+      name: "rerun_failed_jobs",
+      description: "Re-run the failed jobs of a workflow run",
+      schema: {
+        runId: z.number().int().describe("Workflow run ID"),
+      },
+      handler: async ({ runId }) => rerunFailedJobs(config, runId),
+      requiredRole: "operator",
+      errorMessage: ({ runId }) => `Error re-running run ${runId}`,
+    }),
+  ];
+}
@@ -0,0 +1,41 @@
+/**
+ * Artifact Registry tools: pushed images and deployed-vs-built drift
+ */
+
+import { z } from "zod";
+import { checkImageDrift, listAppImages } from "../artifact-registry-tools";
+import type { GCPClient } from "../gcp-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function imageTools(client: GCPClient): ToolDefinition<any>[] {
+  return [
+    // List an app's images in Artifact Registry
+    defineTool({
+      name: "list_app_images",
+      description: "An app's images in Artifact Registry with tags (commit SHAs and latest), digests, build and upload times, newest first",
+      schema: {
+        app: z.string().describe("App name (the image name deploy-app.yml pushes)"),
+        limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of images to return"),
+      },
+      handler: async ({ app, limit }) => listAppImages(client, app, limit),
+      errorMessage: ({ app }) => `Error listing images for ${app}`,
+      structured: true,
+    }),
+
+    // Compare what's running with what's been built
+    defineTool({
+      name: "check_image_drift",
+      description:
+        "Compare an app's Deployment image and the digests its pods are running with Artifact Registry, flagging a stale " +
+        "Deployment, an image missing from the registry, and pods on a different digest than their siblings",
+      schema: {
+        app: z.string().describe("App name (matches the 'app' label and the image name)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ app, namespace }) => checkImageDrift(client, app, namespace),
+      errorMessage: ({ app }) => `Error checking image drift for ${app}`,
+      structured: true,
+      isError: (drift) => !drift.ok,
+    }),
+  ];
+}
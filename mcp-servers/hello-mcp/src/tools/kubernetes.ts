@@ -0,0 +1,293 @@
+/**
+ * Kubernetes tools: pods, logs, resources, events and deployment lifecycle
+ */
+
+import { z } from "zod";
+import {
+  listPods,
+  getPodLogs,
+  getAppLogs,
+  describeResource,
+  checkAppExposure,
+  probeApp,
+  getEvents,
+  getRolloutStatus,
+  waitForRollout,
+  restartDeployment,
+  scaleDeployment,
+  rollbackDeployment,
+  listAppSecrets,
+  setAppSecretKeys,
+  deleteAppSecretKeys,
+  DNS_LABEL,
+  type GCPClient,
+} from "../gcp-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+// Valid Secret data keys, as enforced by the API server
+export const SECRET_KEY = z.string().regex(/^[-._a-zA-Z0-9]+$/, "Secret keys may only contain letters, digits, '-', '_' and '.'");
+
+// Names that go into write paths, where "../" would reach another object
+export const KUBE_NAME = z.string().regex(DNS_LABEL, "Names are lowercase letters, digits and '-' (a DNS label)");
+
+export function kubernetesTools(client: GCPClient): ToolDefinition<any>[] {
+  return [
+    // List pods in a namespace
+    defineTool({
+      name: "get_pods",
+      description: "List pods with kubectl-style status and per-container diagnostics",
+      schema: {
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        labelSelector: z.string().optional().describe("Label selector (e.g., 'app=my-app')"),
+      },
+      handler: async ({ namespace, labelSelector }) => listPods(client, namespace, labelSelector),
+      errorMessage: "Error getting pods",
+      structured: true,
+    }),
+
+    // Get pod logs
+    defineTool({
+      name: "get_pod_logs",
+      description: "Logs from one pod, optionally from the previous container instance or a time window",
+      schema: {
+        pod: z.string().describe("Pod name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        container: z.string().optional().describe("Container name (if pod has multiple)"),
+        tail: z.number().optional().describe("Number of lines to tail (default 100 unless sinceSeconds/sinceTime is set)"),
+        previous: z.boolean().default(false).describe("Get logs from the previous container instance (e.g., after a crash)"),
+        sinceSeconds: z.number().int().positive().optional().describe("Only return logs newer than this many seconds (not with sinceTime)"),
+        sinceTime: z.string().optional().describe("Only return logs after this RFC 3339 timestamp (not with sinceSeconds)"),
+        timestamps: z.boolean().default(false).describe("Prefix each line with its timestamp"),
+        limitBytes: z.number().int().positive().optional().describe("Maximum bytes of logs to return"),
+      },
+      handler: async ({ pod, namespace, tail, ...options }) =>
+        getPodLogs(client, pod, namespace, { ...options, tailLines: tail }),
+      errorMessage: "Error getting pod logs",
+    }),
+
+    // Get merged logs for all pods of an app
+    defineTool({
+      name: "get_app_logs",
+      description: "Logs from every pod of an app, merged in timestamp order and prefixed with the pod name",
+      schema: {
+        app: z.string().describe("App name (matches the 'app' label)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        container: z.string().optional().describe("Container name (defaults to all containers)"),
+        tail: z.number().optional().describe("Number of lines to tail per container (default 100 unless sinceSeconds/sinceTime is set)"),
+        previous: z.boolean().default(false).describe("Get logs from the previous container instances"),
+        sinceSeconds: z.number().int().positive().optional().describe("Only return logs newer than this many seconds (not with sinceTime)"),
+        sinceTime: z.string().optional().describe("Only return logs after this RFC 3339 timestamp (not with sinceSeconds)"),
+        limitBytes: z.number().int().positive().optional().describe("Maximum bytes of logs per container"),
+      },
+      handler: async ({ app, namespace, tail, ...options }) =>
+        getAppLogs(client, app, namespace, { ...options, tailLines: tail }),
+      errorMessage: "Error getting app logs",
+    }),
+
+    // Describe a Kubernetes resource
+    defineTool({
+      name: "describe_resource",
+      description: "Full Kubernetes object for a pod, deployment, service, ingress, endpoints, or cert-manager certificate or certificaterequest",
+      schema: {
+        kind: z
+          .enum(["pod", "deployment", "service", "ingress", "endpoints", "certificate", "certificaterequest"])
+          .describe("Resource kind"),
+        name: z.string().describe("Resource name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        includeEvents: z.boolean().default(false).describe("Attach related events, like kubectl describe"),
+      },
+      handler: async ({ kind, name, namespace, includeEvents }) =>
+        describeResource(client, kind, name, namespace, includeEvents),
+      errorMessage: ({ kind, name }) => `Error describing ${kind}/${name}`,
+    }),
+
+    // Check the chain from Ingress to pods
+    defineTool({
+      name: "check_app_exposure",
+      description:
+        "Pass/fail checklist of an app's exposure: Ingress hosts and address, cert-manager Certificate and CertificateRequest, " +
+        "TLS secret expiry, oauth2-proxy endpoints and the backing Service's endpoints, naming the first broken link",
+      schema: {
+        app: z.string().describe("App name (matches the 'app' label)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ app, namespace }) => checkAppExposure(client, app, namespace),
+      errorMessage: ({ app }) => `Error checking exposure of ${app}`,
+      structured: true,
+      isError: (exposure) => !exposure.ok,
+    }),
+
+    // Call an app from inside the cluster
+    defineTool({
+      name: "probe_app",
+      description:
+        "HTTP request to an app's Service through the Kubernetes API service proxy, bypassing the Ingress and oauth2-proxy, " +
+        "to tell whether the app or the ingress/auth layer is broken. Returns status, headers, latency and a truncated body",
+      schema: {
+        service: z.string().describe("Service name (usually the app name)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        port: z.string().default("80").describe("Service port number or name"),
+        path: z.string().default("/health").describe("Request path, including any query string"),
+        method: z.enum(["GET", "POST"]).default("GET").describe("HTTP method"),
+        body: z.string().max(10 * 1024).optional().describe("Request body (POST only)"),
+        contentType: z.string().optional().describe("Content-Type of the body (default: application/json)"),
+        asUser: z
+          .string()
+          .optional()
+          .describe("Send as X-Auth-Request-User, impersonating a signed-in user the way oauth2-proxy does"),
+        maxBodyChars: z.number().int().positive().default(2000).describe("Truncate the response body to this many characters"),
+      },
+      handler: async ({ service, namespace, ...options }) => probeApp(client, service, namespace, options),
+      errorMessage: ({ service }) => `Error probing ${service}`,
+      structured: true,
+      // Can POST to apps and act as any user
+      requiredRole: "operator",
+    }),
+
+    // Get Kubernetes events
+    defineTool({
+      name: "get_events",
+      description: "Kubernetes events filtered by object or app label, newest first with repeats collapsed",
+      schema: {
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        kind: z.string().optional().describe("Involved object kind (e.g., 'Pod', 'Deployment')"),
+        name: z.string().optional().describe("Involved object name"),
+        app: z.string().optional().describe("App label; includes events for the app's pods, ReplicaSets and Deployments"),
+        limit: z.number().int().min(1).max(500).default(100).describe("Maximum number of events to return"),
+      },
+      handler: async ({ namespace, ...filter }) => getEvents(client, namespace, filter),
+      errorMessage: "Error getting events",
+    }),
+
+    // Get deployment rollout status
+    defineTool({
+      name: "get_rollout_status",
+      description: "Deployment rollout progress, with failing pods' container states when not complete",
+      schema: {
+        name: KUBE_NAME.describe("Deployment name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ name, namespace }) => getRolloutStatus(client, name, namespace),
+      errorMessage: ({ name }) => `Error getting rollout status for ${name}`,
+      structured: true,
+    }),
+
+    // Wait for a deployment rollout to finish
+    defineTool({
+      name: "wait_for_rollout",
+      description: "Poll a deployment until its rollout completes, fails or times out",
+      schema: {
+        name: KUBE_NAME.describe("Deployment name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        timeoutSeconds: z.number().int().min(1).max(600).default(120).describe("How long to wait before giving up"),
+        intervalSeconds: z.number().int().min(1).max(60).default(5).describe("Seconds between status checks"),
+      },
+      handler: async ({ name, namespace, timeoutSeconds, intervalSeconds }) =>
+        waitForRollout(client, name, namespace, timeoutSeconds, intervalSeconds),
+      // Leave room for the final status check after the rollout timeout
+      timeoutMs: ({ timeoutSeconds, intervalSeconds }) => (timeoutSeconds + intervalSeconds + 30) * 1000,
+      errorMessage: ({ name }) => `Error waiting for rollout of ${name}`,
+      structured: true,
+      isError: (rollout) => rollout.state !== "complete",
+    }),
+
+    // Restart a deployment
+    defineTool({
+      name: "restart_deployment",
+      description: "Rolling restart of a deployment (like kubectl rollout restart)",
+      schema: {
+        name: KUBE_NAME.describe("Deployment name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ name, namespace }) => restartDeployment(client, name, namespace),
+      requiredRole: "operator",
+      errorMessage: ({ name }) => `Error restarting deployment ${name}`,
+      structured: true,
+    }),
+
+    // Scale a deployment
+    defineTool({
+      name: "scale_deployment",
+      description: "Set a deployment's replica count",
+      schema: {
+        name: KUBE_NAME.describe("Deployment name"),
+        replicas: z.number().int().min(0).max(10).describe("Desired number of replicas"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ name, replicas, namespace }) => scaleDeployment(client, name, replicas, namespace),
+      requiredRole: "operator",
+      errorMessage: ({ name }) => `Error scaling deployment ${name}`,
+      structured: true,
+    }),
+
+    // Roll a deployment back to a previous revision
+    defineTool({
+      name: "rollback_deployment",
+      description: "Roll a deployment back to the previous (or a given) ReplicaSet revision",
+      schema: {
+        name: KUBE_NAME.describe("Deployment name"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        toRevision: z.number().int().optional().describe("Revision to roll back to (defaults to the previous one)"),
+      },
+      handler: async ({ name, namespace, toRevision }) => rollbackDeployment(client, name, namespace, toRevision),
+      requiredRole: "operator",
+      errorMessage: ({ name }) => `Error rolling back deployment ${name}`,
+      structured: true,
+    }),
+
+    // List an app's secrets without their values
+    defineTool({
+      name: "list_app_secrets",
+      description:
+        "Secrets labelled with the app or used by its Deployment, with key names and last-modified times only (never values). " +
+        "Flags secrets the Deployment references that don't exist",
+      schema: {
+        app: z.string().describe("App name (matches the 'app' label)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+      },
+      handler: async ({ app, namespace }) => listAppSecrets(client, app, namespace),
+      errorMessage: ({ app }) => `Error listing secrets for ${app}`,
+    }),
+
+    // Create or update keys in an app's secret
+    defineTool({
+      name: "set_app_secret_keys",
+      description:
+        "Create or patch an app's Opaque secret with the given key/value pairs (e.g. DATABASE_URL). Values are write-only " +
+        "and never returned. Optionally restarts the app's Deployment so pods pick up the change",
+      schema: {
+        app: KUBE_NAME.describe("App name (matches the 'app' label)"),
+        name: KUBE_NAME.optional().describe("Secret name (defaults to <app>-secrets)"),
+        secretValues: z
+          .record(SECRET_KEY, z.string())
+          .refine((values) => Object.keys(values).length > 0, "Provide at least one key")
+          .describe("Keys and values to set; other keys are left as they are"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        restart: z.boolean().default(false).describe("Restart the app's Deployment afterwards"),
+      },
+      handler: async ({ app, name, secretValues, namespace, restart }) =>
+        setAppSecretKeys(client, app, name ?? `${app}-secrets`, secretValues, namespace, restart),
+      requiredRole: "operator",
+      errorMessage: ({ app, name }) => `Error setting secret ${name ?? `${app}-secrets`}`,
+      structured: true,
+    }),
+
+    // Remove keys from an app's secret
+    defineTool({
+      name: "delete_app_secret_keys",
+      description: "Remove keys from an app's Opaque secret. Optionally restarts the app's Deployment so pods pick up the change",
+      schema: {
+        app: KUBE_NAME.describe("App name (matches the 'app' label)"),
+        name: KUBE_NAME.optional().describe("Secret name (defaults to <app>-secrets)"),
+        keys: z.array(SECRET_KEY).min(1).describe("Keys to remove"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        restart: z.boolean().default(false).describe("Restart the app's Deployment afterwards"),
+      },
+      handler: async ({ app, name, keys, namespace, restart }) =>
+        deleteAppSecretKeys(client, app, name ?? `${app}-secrets`, keys, namespace, restart),
+      requiredRole: "operator",
+      errorMessage: ({ app, name }) => `Error deleting keys from secret ${name ?? `${app}-secrets`}`,
+      structured: true,
+    }),
+  ];
+}
@@ -0,0 +1,50 @@
+/**
+ * Cloud Logging tools
+ */
+
+import { z } from "zod";
+import { queryCloudLogs, buildLogFilter, type GCPClient } from "../gcp-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function loggingTools(client: GCPClient): ToolDefinition<any>[] {
+  return [
+    // Query Cloud Logging
+    defineTool({
+      name: "query_cloud_logs",
+      description: "Query Cloud Logging with a raw filter; pass nextPageToken back as pageToken for more",
+      schema: {
+        filter: z.string().describe("Cloud Logging filter (e.g., 'resource.type=\"k8s_container\"')"),
+        limit: z.number().default(50).describe("Maximum number of log entries to return"),
+        pageToken: z.string().optional().describe("Cursor from a previous call's nextPageToken"),
+      },
+      handler: async ({ filter, limit, pageToken }) => queryCloudLogs(client, filter, limit, pageToken),
+      errorMessage: "Error querying logs",
+      structured: true,
+    }),
+
+    // Query Cloud Logging for app containers without writing filter syntax
+    defineTool({
+      name: "search_app_logs",
+      description: "Query Cloud Logging by app, namespace, container, severity, time range and text",
+      schema: {
+        app: z.string().optional().describe("App name (matches the 'app' pod label)"),
+        namespace: z.string().optional().describe("Kubernetes namespace"),
+        container: z.string().optional().describe("Container name"),
+        minSeverity: z
+          .enum(["DEBUG", "INFO", "NOTICE", "WARNING", "ERROR", "CRITICAL", "ALERT", "EMERGENCY"])
+          .optional()
+          .describe("Minimum severity"),
+        sinceMinutes: z.number().positive().optional().describe("Only entries from the last N minutes"),
+        startTime: z.string().optional().describe("Only entries at or after this RFC 3339 timestamp"),
+        endTime: z.string().optional().describe("Only entries at or before this RFC 3339 timestamp"),
+        text: z.string().optional().describe("Text to search for in log messages"),
+        limit: z.number().default(50).describe("Maximum number of log entries to return"),
+        pageToken: z.string().optional().describe("Cursor from a previous call's nextPageToken"),
+      },
+      handler: async ({ limit, pageToken, ...query }) =>
+        queryCloudLogs(client, buildLogFilter(client, query), limit, pageToken),
+      errorMessage: "Error searching logs",
+      structured: true,
+    }),
+  ];
+}
@@ -0,0 +1,31 @@
+/**
+ * Cloud Monitoring tools
+ */
+
+import { z } from "zod";
+import { getAppMetrics, type GCPClient } from "../gcp-tools";
+import { defineTool, type ToolDefinition } from "./registry";
+
+export function monitoringTools(client: GCPClient): ToolDefinition<any>[] {
+  return [
+    // Get app resource metrics from Cloud Monitoring
+    defineTool({
+      name: "get_app_metrics",
+      description: "CPU, memory working set vs limit, and restart series for an app, with min/max/avg summaries",
+      schema: {
+        app: z.string().describe("App name (matches the 'app' pod label)"),
+        namespace: z.string().default("apps").describe("Kubernetes namespace"),
+        windowMinutes: z.number().int().min(5).max(7 * 24 * 60).default(60).describe("How far back to look"),
+        stepSeconds: z.number().int().min(60).default(60).describe("Alignment step between data points"),
+        metrics: z
+          .array(z.enum(["cpu", "memory", "restarts"]))
+          .default(["cpu", "memory", "restarts"])
+          .describe("Metric groups to fetch"),
+      },
+      handler: async ({ app, namespace, windowMinutes, stepSeconds, metrics }) =>
+        getAppMetrics(client, app, namespace, windowMinutes, stepSeconds, metrics),
+      errorMessage: ({ app }) => `Error getting metrics for ${app}`,
+      format: "compact",
+    }),
+  ];
+}
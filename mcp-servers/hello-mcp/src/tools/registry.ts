@@ -0,0 +1,166 @@
+/**
+ * Declarative tool registry
+ *
+ * Tool modules export ToolDefinitions; registerTools() wires them into the
+ * McpServer with role checks, per-tool timeouts, audit hooks, consistent
+ * result formatting (including truncation of large output) and typed errors.
+ */
+
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { z, ZodRawShape } from "zod";
+import { roleAllows, type Role } from "../access-policy";
+import { ToolError, UpstreamTimeoutError } from "../errors";
+
+export interface ToolDefinition<Args extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description?: string;
+  schema: Args;
+  handler: (args: z.objectOutputType<Args, z.ZodTypeAny>) => Promise<unknown>;
+  // Minimum session role; tools are not registered at all for lower roles
+  requiredRole?: Role;
+  // Defaults to DEFAULT_TIMEOUT_MS; a function can derive it from the arguments
+  timeoutMs?: number | ((args: z.objectOutputType<Args, z.ZodTypeAny>) => number);
+  // Prefix for error messages, e.g. "Error getting pods"
+  errorMessage?: string | ((args: z.objectOutputType<Args, z.ZodTypeAny>) => string);
+  // JSON formatting for non-string results
+  format?: "pretty" | "compact";
+  // Also return object results as structuredContent
+  structured?: boolean;
+  // Report a successful result as a tool error (e.g. a failed rollout)
+  isError?: (result: any) => boolean;
+}
+
+export interface ToolCall {
+  tool: string;
+  args: unknown;
+  durationMs: number;
+  error?: string;
+}
+
+export interface RegisterOptions {
+  role?: Role;
+  onCall?: (call: ToolCall) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// Larger text results are truncated so they don't swamp the client's context
+const MAX_OUTPUT_CHARS = 100 * 1000;
+
+/**
+ * Identity helper that keeps a definition's argument types inferred from its schema
+ */
+export function defineTool<Args extends ZodRawShape>(definition: ToolDefinition<Args>): ToolDefinition<Args> {
+  return definition;
+}
+
+/**
+ * Truncate text output that exceeds MAX_OUTPUT_CHARS
+ */
+function truncate(text: string): string {
+  if (text.length <= MAX_OUTPUT_CHARS) {
+    return text;
+  }
+  return `${text.slice(0, MAX_OUTPUT_CHARS)}\n… [truncated ${text.length - MAX_OUTPUT_CHARS} characters]`;
+}
+
+/**
+ * Reject if the promise doesn't settle within timeoutMs. The promise isn't
+ * cancelled, so a write may still land after the timeout is reported.
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string, writes: boolean): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const seconds = Math.round(timeoutMs / 1000);
+      reject(
+        new UpstreamTimeoutError(
+          writes
+            ? `${name} timed out after ${seconds}s; the operation may still complete, so check its state before retrying`
+            : `${name} timed out after ${seconds}s`
+        )
+      );
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Register tool definitions on an MCP server
+ */
+export function registerTools(server: McpServer, tools: ToolDefinition<any>[], options: RegisterOptions = {}): string[] {
+  const registered: string[] = [];
+
+  for (const tool of tools) {
+    if (tool.requiredRole && !roleAllows(options.role, tool.requiredRole)) {
+      continue;
+    }
+
+    // A failing audit hook is logged rather than reported as the tool's failure,
+    // since the call itself has already happened
+    const report = (call: ToolCall) => {
+      try {
+        options.onCall?.(call);
+      } catch (error) {
+        console.error(`[MCP] Failed to record call to ${tool.name}:`, error);
+      }
+    };
+
+    const callback = (async (args: any) => {
+      const started = Date.now();
+      const timeoutMs = typeof tool.timeoutMs === "function" ? tool.timeoutMs(args) : tool.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+      let result: unknown;
+      let isError: boolean;
+      let text: string | undefined;
+      try {
+        // Tools that need more than the viewer role are the ones that change things
+        result = await withTimeout(tool.handler(args), timeoutMs, tool.name, !!tool.requiredRole);
+        isError = tool.isError?.(result) ?? false;
+        text = typeof result === "string"
+          ? result
+          : JSON.stringify(result, null, tool.format === "compact" ? undefined : 2);
+      } catch (error: any) {
+        const code = error instanceof ToolError ? error.code : "internal";
+        const prefix = typeof tool.errorMessage === "function"
+          ? tool.errorMessage(args)
+          : tool.errorMessage ?? `Error running ${tool.name}`;
+
+        report({ tool: tool.name, args, durationMs: Date.now() - started, error: `[${code}] ${error.message}` });
+
+        return {
+          content: [{ type: "text", text: truncate(`${prefix} [${code}]: ${error.message}`) }],
+          ...(tool.structured ? { structuredContent: { error: { code, message: error.message } } } : {}),
+          isError: true,
+        };
+      }
+
+      // Outside the try, so the call is reported exactly once
+      report({ tool: tool.name, args, durationMs: Date.now() - started, error: isError ? "result reported failure" : undefined });
+
+      return {
+        content: [{ type: "text", text: truncate(text ?? "") }],
+        ...(tool.structured && result && typeof result === "object" && !Array.isArray(result)
+          ? { structuredContent: result as Record<string, unknown> }
+          : {}),
+        ...(isError ? { isError: true } : {}),
+      };
+    }) as ToolCallback<ZodRawShape>;
+
+    if (tool.description) {
+      server.tool(tool.name, tool.description, tool.schema, callback);
+    } else {
+      server.tool(tool.name, tool.schema, callback);
+    }
+    registered.push(tool.name);
+  }
+
+  return registered;
+}
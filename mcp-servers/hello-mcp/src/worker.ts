@@ -0,0 +1,76 @@
+/**
+ * Worker request handling
+ *
+ * The OAuth provider guards every MCP endpoint in MCP_ENDPOINTS and sends
+ * everything else to the Google sign-in handler. index.ts supplies the
+ * McpAgent's handler for each transport; the OAuth flow tests supply
+ * stand-ins, so they exercise the same routes and metadata as the deployed
+ * Worker.
+ */
+
+import OAuthProvider, { type OAuthProviderOptions, type TokenExchangeCallbackOptions } from "@cloudflare/workers-oauth-provider";
+import { currentRole, type AccessPolicyEnv } from "./access-policy";
+import GoogleHandler from "./google-handler";
+import { MCP_ENDPOINTS, withResourceMetadataChallenge } from "./protected-resource";
+
+export type McpTransport = keyof typeof MCP_ENDPOINTS;
+
+// What the OAuth provider accepts as the handler behind an API route
+type ApiHandler = NonNullable<OAuthProviderOptions["apiHandlers"]>[string];
+
+// Thrown from the token exchange when the access policy no longer lets the user in
+class AccessRevokedError extends Error {}
+
+/**
+ * Re-check the access policy whenever a client refreshes its token, so a
+ * grant follows role changes and stops working once the user is removed
+ */
+async function refreshRole(env: AccessPolicyEnv, { grantType, props }: TokenExchangeCallbackOptions) {
+  if (grantType !== "refresh_token") {
+    return; // The role was resolved moments ago at sign-in
+  }
+
+  const role = await currentRole(env, props);
+  if (!role) {
+    console.error("[OAuth] Refused token refresh for a user no longer in the access policy");
+    throw new AccessRevokedError("The user is no longer allowed to use this MCP server");
+  }
+  if (role !== props.role) {
+    console.log(`[OAuth] Role changed from ${props.role} to ${role} on token refresh`);
+    return { newProps: { ...props, role } };
+  }
+}
+
+/**
+ * Build the Worker's fetch handler around the given MCP transport handlers
+ */
+export function createWorker(serve: (transport: McpTransport, path: string) => ApiHandler): ExportedHandler<AccessPolicyEnv> {
+  // OAuth-protected MCP endpoints: Streamable HTTP for current clients, SSE for older ones
+  const apiHandlers: Record<string, ApiHandler> = Object.fromEntries(
+    Object.entries(MCP_ENDPOINTS).map(([transport, path]) => [path, serve(transport as McpTransport, path)])
+  );
+
+  return {
+    async fetch(request, env, ctx): Promise<Response> {
+      // Built per request because the token exchange callback needs env to read the policy
+      const oauthProvider = new OAuthProvider({
+        apiHandlers,
+        defaultHandler: GoogleHandler as ExportedHandler,
+        authorizeEndpoint: "/authorize",
+        tokenEndpoint: "/token",
+        clientRegistrationEndpoint: "/register",
+        tokenExchangeCallback: (options) => refreshRole(env, options),
+      });
+
+      try {
+        const response = await oauthProvider.fetch(request, env, ctx);
+        return withResourceMetadataChallenge(response, request);
+      } catch (error) {
+        if (error instanceof AccessRevokedError) {
+          return Response.json({ error: "invalid_grant", error_description: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    },
+  };
+}
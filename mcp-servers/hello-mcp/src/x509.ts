@@ -0,0 +1,89 @@
+/**
+ * Minimal X.509 reader
+ *
+ * Just enough DER parsing to read a certificate's validity period, so TLS
+ * secret expiry can be checked without a crypto library in the Worker.
+ */
+
+export interface CertificateValidity {
+  notBefore: Date;
+  notAfter: Date;
+}
+
+interface DerElement {
+  tag: number;
+  start: number; // First byte of the contents
+  end: number; // One past the last byte of the contents
+}
+
+/**
+ * Read the DER tag-length-value element at offset
+ */
+function readElement(der: Uint8Array, offset: number): DerElement {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let start = offset + 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + der[start + i];
+    }
+    start += lengthBytes;
+  }
+
+  if (tag === undefined || start + length > der.length) {
+    throw new Error("Truncated DER certificate");
+  }
+  return { tag, start, end: start + length };
+}
+
+/**
+ * Parse a UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ)
+ */
+function parseTime(der: Uint8Array, element: DerElement): Date {
+  const text = new TextDecoder().decode(der.subarray(element.start, element.end));
+  const match = text.match(/^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match || (element.tag !== 0x17 && element.tag !== 0x18)) {
+    throw new Error(`Unsupported certificate time: ${text}`);
+  }
+
+  let year = Number(match[1]);
+  if (element.tag === 0x17) {
+    // RFC 5280: two-digit years from 50 onwards are 19xx
+    year += year >= 50 ? 1900 : 2000;
+  }
+  const [month, day, hour, minute, second] = match.slice(2).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+/**
+ * Validity period of the first certificate in a PEM bundle (the leaf, for a
+ * cert-manager tls.crt)
+ */
+export function parseCertificateValidity(pem: string): CertificateValidity {
+  const match = pem.match(/-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/);
+  if (!match) {
+    throw new Error("No PEM certificate found");
+  }
+  const der = Uint8Array.from(atob(match[1].replace(/\s+/g, "")), (c) => c.charCodeAt(0));
+
+  // Certificate ::= SEQUENCE { tbsCertificate, ... }
+  const certificate = readElement(der, 0);
+  const tbs = readElement(der, certificate.start);
+
+  // tbsCertificate ::= SEQUENCE { [0] version OPTIONAL, serialNumber, signature, issuer, validity, ... }
+  let element = readElement(der, tbs.start);
+  if (element.tag === 0xa0) {
+    element = readElement(der, element.end);
+  }
+  for (let skip = 0; skip < 3; skip++) {
+    element = readElement(der, element.end);
+  }
+
+  // validity ::= SEQUENCE { notBefore, notAfter }
+  const notBefore = readElement(der, element.start);
+  const notAfter = readElement(der, notBefore.end);
+  return { notBefore: parseTime(der, notBefore), notAfter: parseTime(der, notAfter) };
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeUpstreams } from "./support/fake-upstreams";
+import { connectServer, createGcpClient, seedWebApp } from "./support/fixtures";
+import { createSql } from "./support/sql";
+import { ensureAuditTable, queryAudit, recordAudit } from "../src/audit";
+import { auditTools } from "../src/tools/audit";
+import { basicTools } from "../src/tools/basic";
+import { kubernetesTools } from "../src/tools/kubernetes";
+import { registerTools } from "../src/tools/registry";
+
+describe("audit log", () => {
+  let upstreams: FakeUpstreams;
+  let sql: Awaited<ReturnType<typeof createSql>>;
+  let mcp: Awaited<ReturnType<typeof connectServer>>;
+
+  // Wired the way HelloMCP.init does it
+  const connect = async (email = "alice@example.com") => {
+    mcp = await connectServer((server) =>
+      registerTools(
+        server,
+        [...basicTools(() => ({})), ...auditTools(sql), ...kubernetesTools(createGcpClient(upstreams))],
+        { role: "operator", onCall: (call) => recordAudit(sql, { userId: `user-${email}`, email, ...call }) }
+      )
+    );
+    return mcp;
+  };
+
+  const call = async (name: string, args: Record<string, unknown> = {}) =>
+    (await mcp.client.callTool({ name, arguments: args })) as { content: { text: string }[]; isError?: boolean };
+
+  beforeEach(async () => {
+    upstreams = await FakeUpstreams.create();
+    seedWebApp(upstreams);
+    sql = await createSql();
+    ensureAuditTable(sql);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await mcp?.close();
+    sql.close();
+  });
+
+  it("creates the table idempotently", () => {
+    ensureAuditTable(sql);
+
+    expect(queryAudit(sql)).toEqual([]);
+  });
+
+  it("records each call with its outcome and sanitised arguments, newest first", async () => {
+    upstreams.setServiceHandler("web", "80", () => new Response("ok"));
+    await connect();
+
+    await call("echo", { message: "x".repeat(300) });
+    await call("describe_resource", { kind: "pod", name: "missing" });
+    await call("probe_app", { service: "web", method: "POST", body: '{"password":"hunter2"}', asUser: "bob@example.com" });
+
+    const [probe, describe_, echo] = queryAudit(sql);
+    expect(echo).toMatchObject({ tool: "echo", email: "alice@example.com", userId: "user-alice@example.com", success: true, error: null });
+    expect(JSON.parse(echo.args).message).toBe(`${"x".repeat(200)}…`);
+    expect(describe_).toMatchObject({ tool: "describe_resource", success: false, error: expect.stringMatching(/^\[not_found\]/) });
+    expect(JSON.parse(describe_.args)).toMatchObject({ kind: "pod", name: "missing" });
+
+    // Request bodies are where credentials end up, so only the fact one was sent is kept
+    expect(probe).toMatchObject({ tool: "probe_app", success: true });
+    expect(JSON.parse(probe.args)).toMatchObject({ service: "web", body: "[REDACTED]", asUser: "bob@example.com" });
+    expect(probe.args).not.toContain("hunter2");
+    expect(probe.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("audit_log filters by user, tool and time, up to the limit", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const at = (time: string, email: string, tool: string) => {
+      vi.setSystemTime(new Date(time));
+      recordAudit(sql, { email, tool, args: {}, durationMs: 1 });
+    };
+    at("2026-01-01T09:00:00Z", "alice@example.com", "get_pods");
+    at("2026-01-01T10:00:00Z", "bob@example.com", "restart_deployment");
+    at("2026-01-01T11:00:00Z", "alice@example.com", "restart_deployment");
+    at("2026-01-01T12:00:00Z", "alice@example.com", "get_pods");
+
+    // The audit_log calls are recorded too, earlier and as another user, so they stay out of the results
+    vi.setSystemTime(new Date("2025-12-31T00:00:00Z"));
+    await connect("auditor@example.com");
+
+    const query = async (args: Record<string, unknown>) =>
+      (JSON.parse((await call("audit_log", args)).content[0].text) as { email: string; tool: string; timestamp: string }[]).map(
+        (record) => `${record.timestamp.slice(11, 13)} ${record.email.split("@")[0]} ${record.tool}`
+      );
+
+    expect(await query({ email: "alice@example.com" })).toEqual(["12 alice get_pods", "11 alice restart_deployment", "09 alice get_pods"]);
+    expect(await query({ tool: "restart_deployment" })).toEqual(["11 alice restart_deployment", "10 bob restart_deployment"]);
+    expect(await query({ since: "2026-01-01T10:00:00Z", until: "2026-01-01T11:00:00Z" })).toEqual([
+      "11 alice restart_deployment",
+      "10 bob restart_deployment",
+    ]);
+    expect(await query({ since: "2026-01-01T12:00:00+01:00" })).toEqual(["12 alice get_pods", "11 alice restart_deployment"]);
+    expect(await query({ email: "alice@example.com", limit: 1 })).toEqual(["12 alice get_pods"]);
+    expect((await call("audit_log", { since: "yesterday" })).content[0].text).toMatch(/Invalid timestamp "yesterday"/);
+
+    expect(queryAudit(sql, { tool: "audit_log", email: "auditor@example.com" })).toHaveLength(6);
+  });
+});
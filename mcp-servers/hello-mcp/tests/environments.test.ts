@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CLUSTER_NAME, FakeUpstreams, PROJECT_ID, REGION } from "./support/fake-upstreams";
+import { connectServer, connectTools, createGcpClient, seedWebApp } from "./support/fixtures";
+import { loadEnvironments, readableClient, type EnvironmentRoles, type GCPEnvironments } from "../src/environments";
+import type { GCPClient } from "../src/gcp-tools";
+import { environmentTools, withEnvironments } from "../src/tools/environments";
+import { kubernetesTools } from "../src/tools/kubernetes";
+import { imageTools } from "../src/tools/images";
+import { cloudSqlTools } from "../src/tools/cloudsql";
+import type { Role } from "../src/access-policy";
+import { registerAppResources } from "../src/resources";
+import { registerPrompts } from "../src/prompts";
+
+describe("GCP environments", () => {
+  describe("loadEnvironments", () => {
+    it("describes the single-environment vars as the default environment", () => {
+      const gcp = loadEnvironments({ GCP_SERVICE_ACCOUNT_KEY: "{}", GCP_CLUSTER_NAME: "other", GKE_WRITABLE_NAMESPACES: "apps, jobs" });
+
+      expect(gcp).toEqual({
+        defaultEnvironment: "default",
+        environments: [
+          {
+            name: "default",
+            config: expect.objectContaining({
+              serviceAccountKey: "{}",
+              clusterName: "other",
+              region: "europe-west2",
+              writableNamespaces: ["apps", "jobs"],
+            }),
+            roles: {},
+          },
+        ],
+      });
+    });
+
+    it("returns null without credentials", () => {
+      expect(loadEnvironments({ GCP_PROJECT_ID: "p" })).toBeNull();
+    });
+
+    it("reads named environments, falling back to the single-environment vars", () => {
+      const gcp = loadEnvironments({
+        GCP_SERVICE_ACCOUNT_KEY: "staging-key",
+        GCP_PRODUCTION_KEY: "production-key",
+        GCP_REGION: "us-central1",
+        GCP_ENVIRONMENTS: JSON.stringify({
+          default: "staging",
+          environments: {
+            production: { projectId: "prod", serviceAccountKeySecret: "GCP_PRODUCTION_KEY", roles: { write: "admin" } },
+            staging: { clusterName: "tech-island-staging" },
+          },
+        }),
+      })!;
+
+      expect(gcp.defaultEnvironment).toBe("staging");
+      expect(gcp.environments.map(({ name, config, roles }) => [name, config.projectId, config.clusterName, config.region, config.serviceAccountKey, roles])).toEqual([
+        ["production", "prod", "tech-island", "us-central1", "production-key", { write: "admin" }],
+        ["staging", "", "tech-island-staging", "us-central1", "staging-key", {}],
+      ]);
+    });
+
+    it("defaults to the first environment", () => {
+      const gcp = loadEnvironments({
+        GCP_SERVICE_ACCOUNT_KEY: "key",
+        GCP_ENVIRONMENTS: JSON.stringify({ environments: { staging: {}, production: {} } }),
+      });
+
+      expect(gcp?.defaultEnvironment).toBe("staging");
+    });
+
+    it.each([
+      [{ environments: { prod: { role: { write: "admin" } } } }, /Unrecognized key\(s\) in object: 'role'/],
+      [{ environments: { prod: { roles: { write: "owner" } } } }, /prod\.roles\.write/],
+      [{ environments: { Prod: {} } }, /Environment names must be/],
+      [{ environments: {} }, /no environments defined/],
+      [{ default: "staging", environments: { prod: {} } }, /default environment "staging" is not defined/],
+      [{ environments: { prod: { serviceAccountKeySecret: "GCP_PROD_KEY" } } }, /needs its service account key in the GCP_PROD_KEY secret/],
+    ])("rejects %j", (spec, message) => {
+      expect(() => loadEnvironments({ GCP_SERVICE_ACCOUNT_KEY: "key", GCP_ENVIRONMENTS: JSON.stringify(spec) })).toThrow(message);
+    });
+  });
+
+  describe("tools", () => {
+    let upstreams: FakeUpstreams;
+    let mcp: Awaited<ReturnType<typeof connectTools>>;
+
+    // Staging is the fake cluster; production pushes images to its own repository
+    const connect = async (role: Role, productionRoles: EnvironmentRoles = { write: "admin" }) => {
+      const clients = new Map<string, GCPClient>([
+        ["staging", createGcpClient(upstreams)],
+        ["production", createGcpClient(upstreams, { artifactRegistryRepository: "production-containers" })],
+      ]);
+      const gcp: GCPEnvironments = {
+        defaultEnvironment: "staging",
+        environments: [
+          { name: "staging", config: clients.get("staging")!.config, roles: {} },
+          { name: "production", config: clients.get("production")!.config, roles: productionRoles },
+        ],
+      };
+
+      const modules = [kubernetesTools, imageTools, cloudSqlTools];
+      mcp = await connectTools(
+        [...environmentTools(gcp, clients, role, modules), ...modules.flatMap((module) => withEnvironments(gcp, clients, role, module))],
+        role
+      );
+      return mcp;
+    };
+
+    beforeEach(async () => {
+      upstreams = await FakeUpstreams.create();
+      seedWebApp(upstreams);
+    });
+
+    afterEach(async () => {
+      await mcp?.close();
+    });
+
+    it("adds an optional environment argument to every GCP tool", async () => {
+      const { client } = await connect("operator");
+      const { tools } = await client.listTools();
+
+      for (const tool of tools.filter((t) => t.name !== "list_environments")) {
+        expect(tool.inputSchema.properties).toHaveProperty("environment.enum", ["staging", "production"]);
+        expect(tool.inputSchema.required ?? []).not.toContain("environment");
+      }
+    });
+
+    it("uses the default environment unless another is named", async () => {
+      const { call } = await connect("viewer");
+
+      expect((await call("get_pods")).data.items).toHaveLength(2);
+
+      await call("list_app_images", { app: "web", environment: "production" });
+      await call("list_app_images", { app: "web" });
+      expect(upstreams.requestsTo("artifactregistry.googleapis.com").map((request) => request.url.pathname.split("/")[7])).toEqual([
+        "production-containers",
+        `${CLUSTER_NAME}-containers`,
+      ]);
+    });
+
+    it("rejects unknown environments", async () => {
+      const { call } = await connect("viewer");
+      const result = await call("get_pods", { environment: "dev" });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(/Invalid enum value/);
+    });
+
+    it("locks production writes while staging stays open", async () => {
+      const { call, calls } = await connect("operator");
+
+      const production = await call("restart_deployment", { name: "web", environment: "production" });
+      expect(production.isError).toBe(true);
+      expect(production.text).toContain("[forbidden]: restart_deployment in the production environment requires the admin role");
+      expect(upstreams.getObject("Deployment", "web").spec.template.metadata.annotations).toBeUndefined();
+
+      const staging = await call("restart_deployment", { name: "web", environment: "staging" });
+      expect(staging.isError).toBe(false);
+      expect(calls.map((c) => (c.args as any).environment)).toEqual(["production", "staging"]);
+    });
+
+    it("lets admins write to production", async () => {
+      const { call } = await connect("admin");
+
+      expect((await call("restart_deployment", { name: "web", environment: "production" })).isError).toBe(false);
+    });
+
+    it("checks an environment's read role on read tools", async () => {
+      const { call } = await connect("viewer", { read: "operator" });
+
+      expect((await call("get_pods", { environment: "production" })).text).toContain("requires the operator role");
+      expect((await call("get_pods", { environment: "staging" })).isError).toBe(false);
+    });
+
+    it("hides write tools no environment lets the session use", async () => {
+      const clients = new Map([["production", createGcpClient(upstreams)]]);
+      const gcp: GCPEnvironments = {
+        defaultEnvironment: "production",
+        environments: [{ name: "production", config: clients.get("production")!.config, roles: { write: "admin" } }],
+      };
+      mcp = await connectTools(withEnvironments(gcp, clients, "operator", kubernetesTools), "operator");
+      const names = (await mcp.client.listTools()).tools.map((tool) => tool.name);
+
+      expect(names).toContain("get_pods");
+      expect(names).not.toContain("restart_deployment");
+    });
+
+    it("keeps each tool's own requiredRole under raised environment roles", () => {
+      const client = createGcpClient(upstreams);
+      const gcp: GCPEnvironments = {
+        defaultEnvironment: "production",
+        environments: [{ name: "production", config: client.config, roles: { read: "operator", write: "admin" } }],
+      };
+      const tools = new Map(withEnvironments(gcp, new Map([["production", client]]), "admin", kubernetesTools).map((tool) => [tool.name, tool]));
+
+      // So get_pods still times out as a read, and restart_deployment as a write
+      expect(tools.get("get_pods")!.requiredRole).toBeUndefined();
+      expect(tools.get("restart_deployment")!.requiredRole).toBe("operator");
+      expect(withEnvironments(gcp, new Map([["production", client]]), "viewer", kubernetesTools)).toEqual([]);
+    });
+
+    it("only gives resources and prompts to sessions that may read the default environment", async () => {
+      const client = createGcpClient(upstreams);
+      const clients = new Map([["production", client]]);
+      const gcp: GCPEnvironments = {
+        defaultEnvironment: "production",
+        environments: [{ name: "production", config: client.config, roles: { read: "operator" } }],
+      };
+
+      expect(readableClient(gcp, clients, "operator")).toBe(client);
+      expect(readableClient(gcp, clients, "viewer")).toBeNull();
+      expect(readableClient(gcp, clients, undefined)).toBeNull();
+      expect(readableClient(gcp, clients, "admin", "staging")).toBeNull();
+
+      // As index.ts wires them for a viewer
+      const viewer = await connectServer((server) => {
+        const readable = readableClient(gcp, clients, "viewer");
+        if (readable) {
+          registerAppResources(server, readable);
+          registerPrompts(server, readable, null);
+        }
+      });
+      await expect(viewer.client.readResource({ uri: "app://web/deployment" })).rejects.toThrow();
+      await expect(viewer.client.getPrompt({ name: "diagnose_app", arguments: { app: "web" } })).rejects.toThrow();
+      expect(upstreams.requestsTo("kube-proxy.test")).toHaveLength(0);
+      await viewer.close();
+    });
+
+    it("list_environments reports the role each write tool needs per environment and the session's access", async () => {
+      const { call } = await connect("operator");
+      const { data } = await call("list_environments");
+
+      const operatorTools = [
+        "probe_app",
+        "restart_deployment",
+        "scale_deployment",
+        "rollback_deployment",
+        "set_app_secret_keys",
+        "delete_app_secret_keys",
+        "provision_app_database",
+      ];
+      const toolRoles = (operatorRole: Role) => ({
+        ...Object.fromEntries(operatorTools.map((tool) => [tool, operatorRole])),
+        teardown_app_database: "admin",
+      });
+      expect(data).toEqual({
+        defaultEnvironment: "staging",
+        environments: [
+          {
+            name: "staging",
+            default: true,
+            projectId: PROJECT_ID,
+            clusterName: CLUSTER_NAME,
+            region: REGION,
+            roles: { read: "viewer", writeTools: toolRoles("operator") },
+            // Admin-only tools aren't writable for an operator even where operators can write
+            access: { read: true, writeTools: operatorTools },
+          },
+          {
+            name: "production",
+            default: false,
+            projectId: PROJECT_ID,
+            clusterName: CLUSTER_NAME,
+            region: REGION,
+            roles: { read: "viewer", writeTools: toolRoles("admin") },
+            access: { read: true, writeTools: [] },
+          },
+        ],
+      });
+      expect(JSON.stringify(data)).not.toContain("private_key");
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CLUSTER_ENDPOINT, FakeUpstreams } from "./support/fake-upstreams";
+import { createGcpClient } from "./support/fixtures";
+import { verifyTestJwt } from "./support/keys";
+import { listPods } from "../src/gcp-tools";
+import { UpstreamError } from "../src/errors";
+
+describe("GCPClient", () => {
+  let upstreams: FakeUpstreams;
+
+  beforeEach(async () => {
+    upstreams = await FakeUpstreams.create();
+  });
+
+  it("mints an access token with a JWT signed by the service account key", async () => {
+    const client = createGcpClient(upstreams);
+    const token = await client.getAccessToken();
+
+    expect(upstreams.validAccessTokens.has(token)).toBe(true);
+
+    const [exchange] = upstreams.requestsTo("oauth2.googleapis.com");
+    const assertion = new URLSearchParams(exchange.body).get("assertion")!;
+    const claims = await verifyTestJwt(upstreams.serviceAccountKey, assertion);
+    expect(claims).toMatchObject({
+      iss: "mcp@test-project.iam.gserviceaccount.com",
+      aud: "https://oauth2.googleapis.com/token",
+      scope: "https://www.googleapis.com/auth/cloud-platform",
+    });
+    expect(claims!.exp - claims!.iat).toBe(3600);
+  });
+
+  it("reuses the cached token and shares concurrent token requests", async () => {
+    const client = createGcpClient(upstreams);
+    const tokens = await Promise.all([client.getAccessToken(), client.getAccessToken()]);
+    await client.getAccessToken();
+
+    expect(new Set(tokens).size).toBe(1);
+    expect(upstreams.requestsTo("oauth2.googleapis.com")).toHaveLength(1);
+  });
+
+  it("re-mints the token and retries once when an API returns 401", async () => {
+    const client = createGcpClient(upstreams);
+    await client.getCluster();
+    upstreams.expireAccessTokens();
+
+    const response = await client.fetch("https://logging.googleapis.com/v2/entries:list", { method: "POST", body: "{}" });
+
+    expect(response.status).toBe(200);
+    expect(upstreams.requestsTo("oauth2.googleapis.com")).toHaveLength(2);
+  });
+
+  it("routes Kubernetes calls through the gateway with the cluster endpoint and CA", async () => {
+    const client = createGcpClient(upstreams);
+    await listPods(client);
+    await listPods(client);
+
+    const [kubeRequest] = upstreams.requestsTo("kube-proxy.test");
+    expect(kubeRequest.url.pathname).toBe("/api/v1/namespaces/apps/pods");
+    expect(kubeRequest.headers.get("X-Kube-Endpoint")).toBe(CLUSTER_ENDPOINT);
+    expect(atob(kubeRequest.headers.get("X-Kube-CA-Certificate")!)).toContain("-----BEGIN CERTIFICATE-----");
+
+    // The cluster is looked up once per client
+    expect(upstreams.requestsTo("container.googleapis.com")).toHaveLength(1);
+  });
+
+  it("refuses to call the API server directly unless unpinned TLS is allowed", async () => {
+    const client = createGcpClient(upstreams, { kubeApiProxyUrl: undefined });
+
+    await expect(listPods(client)).rejects.toThrow(/cannot pin TLS trust/);
+  });
+
+  it("raises a typed error when the service account key is rejected", async () => {
+    const other = await FakeUpstreams.create();
+    const client = createGcpClient(upstreams, { serviceAccountKey: other.serviceAccountKeyJson });
+
+    const error = await client.getAccessToken().catch((e) => e);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ code: "upstream_error", status: 400 });
+    expect(error.message).toMatch(/^Failed to get access token: .*Invalid JWT Signature/);
+  });
+});
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeUpstreams, GOOGLE_CLIENT_ID, type GoogleUser } from "./support/fake-upstreams";
+import { FakeKV } from "./support/fake-kv";
+import { sha256Base64Url } from "./support/keys";
+import { createWorker } from "../src/worker";
+
+const ORIGIN = "https://mcp.test";
+const CLIENT_REDIRECT_URI = "https://client.test/callback";
+
+const ALICE: GoogleUser = { sub: "google-alice", email: "alice@example.com", name: "Alice" };
+const MALLORY: GoogleUser = { sub: "google-mallory", email: "mallory@evil.test" };
+
+// The deployed worker, with each MCP endpoint echoing its transport and the authorized props
+const app = createWorker((transport) => ({
+  fetch: async (_request: Request, _env: unknown, ctx: any) => Response.json({ transport, ...ctx.props }),
+}));
+
+/**
+ * Cookie header value ("name=value") from a response's Set-Cookie
+ */
+function cookieFrom(response: Response): string {
+  return response.headers.get("Set-Cookie")!.split(";")[0];
+}
+
+describe("OAuth flow", () => {
+  let upstreams: FakeUpstreams;
+  let env: Record<string, any>;
+
+  const worker = async (path: string, init: RequestInit = {}) => {
+    return app.fetch!(new Request(new URL(path, ORIGIN), { redirect: "manual", ...init }) as any, env as any, {
+      waitUntil: () => {},
+      passThroughOnException: () => {},
+    } as any) as Promise<Response>;
+  };
+
+  const registerClient = async () => {
+    const response = await worker("/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_name: "Test Client",
+        redirect_uris: [CLIENT_REDIRECT_URI],
+        token_endpoint_auth_method: "none",
+      }),
+    });
+    expect(response.status).toBe(201);
+    return ((await response.json()) as any).client_id as string;
+  };
+
+  /**
+   * Drive /authorize and the Google sign-in, returning the callback response
+   */
+  const signIn = async (clientId: string, user: GoogleUser, codeVerifier: string) => {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: clientId,
+      redirect_uri: CLIENT_REDIRECT_URI,
+      state: "client-state",
+      scope: "mcp",
+      code_challenge: await sha256Base64Url(codeVerifier),
+      code_challenge_method: "S256",
+    });
+    const authorize = await worker(`/authorize?${params}`);
+    expect(authorize.status).toBe(302);
+
+    const googleUrl = new URL(authorize.headers.get("Location")!);
+    expect(googleUrl.host).toBe("accounts.google.com");
+    expect(googleUrl.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(googleUrl.searchParams.get("nonce")).toBeTruthy();
+
+    const callbackUrl = upstreams.signInAtGoogle(googleUrl.toString(), user);
+    const callback = await worker(callbackUrl, { headers: { Cookie: cookieFrom(authorize) } });
+    return { callback, callbackUrl, sessionCookie: cookieFrom(authorize) };
+  };
+
+  const approve = async (callback: Response) => {
+    const html = await callback.text();
+    const consentId = html.match(/name="consent_id" value="([^"]+)"/)![1];
+    return worker("/consent", {
+      method: "POST",
+      headers: { Cookie: cookieFrom(callback) },
+      body: new URLSearchParams({ consent_id: consentId, action: "approve" }),
+    });
+  };
+
+  const exchangeCode = async (clientId: string, redirect: Response, codeVerifier: string) => {
+    const location = new URL(redirect.headers.get("Location")!);
+    expect(`${location.origin}${location.pathname}`).toBe(CLIENT_REDIRECT_URI);
+    expect(location.searchParams.get("state")).toBe("client-state");
+
+    const response = await worker("/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: location.searchParams.get("code")!,
+        redirect_uri: CLIENT_REDIRECT_URI,
+        client_id: clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+    expect(response.status).toBe(200);
+    return (await response.json()) as { access_token: string; refresh_token: string };
+  };
+
+  const refresh = (clientId: string, refreshToken: string) =>
+    worker("/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken, client_id: clientId }),
+    });
+
+  const props = async (accessToken: string) =>
+    (await worker("/mcp", { headers: { Authorization: `Bearer ${accessToken}` } })).json() as Promise<Record<string, unknown>>;
+
+  beforeEach(async () => {
+    upstreams = await FakeUpstreams.create();
+    vi.stubGlobal("fetch", upstreams.fetch);
+    env = {
+      OAUTH_KV: new FakeKV(),
+      GOOGLE_CLIENT_ID,
+      GOOGLE_CLIENT_SECRET: "google-secret",
+      COOKIE_ENCRYPTION_KEY: "cookie-encryption-key",
+      ACCESS_POLICY: JSON.stringify({ users: { [ALICE.email]: "operator" } }),
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("authorizes a client end to end and exposes the user's props to the MCP endpoint", async () => {
+    const clientId = await registerClient();
+    const { callback } = await signIn(clientId, ALICE, "verifier-1-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    expect(callback.status).toBe(200);
+    const redirect = await approve(callback);
+    expect(redirect.status).toBe(302);
+
+    const { access_token: accessToken } = await exchangeCode(clientId, redirect, "verifier-1-abcdefghijklmnopqrstuvwxyz0123456789");
+    for (const [transport, path] of [["streamable-http", "/mcp"], ["sse", "/sse"]]) {
+      const mcp = await worker(path, { headers: { Authorization: `Bearer ${accessToken}` } });
+
+      expect(mcp.status).toBe(200);
+      expect(await mcp.json()).toMatchObject({ transport, userId: ALICE.sub, email: ALICE.email, role: "operator" });
+    }
+
+    // Google was called with the PKCE verifier for its own code
+    const [googleExchange] = upstreams.requestsTo("oauth2.googleapis.com");
+    expect(new URLSearchParams(googleExchange.body).get("code_verifier")).toBeTruthy();
+  });
+
+  it("skips the consent screen once the user has approved the client", async () => {
+    const clientId = await registerClient();
+    const first = await signIn(clientId, ALICE, "verifier-2-abcdefghijklmnopqrstuvwxyz0123456789");
+    await approve(first.callback);
+
+    const { callback } = await signIn(clientId, ALICE, "verifier-3-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    expect(callback.status).toBe(302);
+    expect((await exchangeCode(clientId, callback, "verifier-3-abcdefghijklmnopqrstuvwxyz0123456789")).access_token).toBeTruthy();
+  });
+
+  it("re-checks the access policy when a client refreshes its token", async () => {
+    const clientId = await registerClient();
+    const { callback } = await signIn(clientId, ALICE, "verifier-7-abcdefghijklmnopqrstuvwxyz0123456789");
+    const tokens = await exchangeCode(clientId, await approve(callback), "verifier-7-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    // Downgraded: the refreshed token, and the ones after it, carry the new role
+    await env.OAUTH_KV.put("access-policy", JSON.stringify({ users: { [ALICE.email]: "viewer" } }));
+    const downgraded = await refresh(clientId, tokens.refresh_token);
+    expect(downgraded.status).toBe(200);
+    const { access_token, refresh_token } = (await downgraded.json()) as any;
+    expect(await props(access_token)).toMatchObject({ email: ALICE.email, role: "viewer" });
+
+    // Removed: the grant can't be refreshed any more
+    await env.OAUTH_KV.put("access-policy", JSON.stringify({ users: {} }));
+    const removed = await refresh(clientId, refresh_token);
+    expect(removed.status).toBe(400);
+    expect(await removed.json()).toMatchObject({ error: "invalid_grant" });
+  });
+
+  it("keeps domain roles across refreshes", async () => {
+    env.ACCESS_POLICY = JSON.stringify({ domains: { "example.com": "viewer" } });
+    const clientId = await registerClient();
+    const { callback } = await signIn(clientId, { ...ALICE, hd: "example.com" }, "verifier-8-abcdefghijklmnopqrstuvwxyz0123456789");
+    const tokens = await exchangeCode(clientId, await approve(callback), "verifier-8-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    const refreshed = await refresh(clientId, tokens.refresh_token);
+    expect(refreshed.status).toBe(200);
+    expect(await props(((await refreshed.json()) as any).access_token)).toMatchObject({ hostedDomain: "example.com", role: "viewer" });
+  });
+
+  it("rejects users outside the access policy", async () => {
+    const clientId = await registerClient();
+    const { callback } = await signIn(clientId, MALLORY, "verifier-4-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    expect(callback.status).toBe(403);
+  });
+
+  it("rejects unverified Google emails", async () => {
+    const clientId = await registerClient();
+    const { callback } = await signIn(clientId, { ...ALICE, emailVerified: false }, "verifier-5-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    expect(callback.status).toBe(403);
+  });
+
+  it("refuses a replayed callback or one from another browser", async () => {
+    const clientId = await registerClient();
+    const { callbackUrl, sessionCookie } = await signIn(clientId, ALICE, "verifier-6-abcdefghijklmnopqrstuvwxyz0123456789");
+
+    const replay = await worker(callbackUrl, { headers: { Cookie: sessionCookie } });
+    expect(replay.status).toBe(400);
+
+    const otherBrowser = await worker(callbackUrl);
+    expect(otherBrowser.status).toBe(400);
+  });
+
+  it.each(["/mcp", "/sse"])("challenges unauthenticated requests to %s with the resource metadata location", async (path) => {
+    const response = await worker(path);
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toContain(
+      `resource_metadata="${ORIGIN}/.well-known/oauth-protected-resource${path}"`
+    );
+
+    const metadata = await worker(`/.well-known/oauth-protected-resource${path}`);
+    expect(await metadata.json()).toMatchObject({ resource: `${ORIGIN}${path}`, authorization_servers: [ORIGIN] });
+  });
+});
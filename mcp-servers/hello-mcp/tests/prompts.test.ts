@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FakeUpstreams } from "./support/fake-upstreams";
+import { connectServer, createGcpClient, createGitHubConfig, seedWebApp } from "./support/fixtures";
+import { registerPrompts } from "../src/prompts";
+
+describe("MCP prompts", () => {
+  let upstreams: FakeUpstreams;
+  let mcp: Awaited<ReturnType<typeof connectServer>>;
+
+  const getPromptText = async (name: string, args: Record<string, string>) => {
+    const { messages } = await mcp.client.getPrompt({ name, arguments: args });
+    return (messages[0].content as { text: string }).text;
+  };
+
+  beforeEach(async () => {
+    upstreams = await FakeUpstreams.create();
+    seedWebApp(upstreams);
+    mcp = await connectServer((server) => registerPrompts(server, createGcpClient(upstreams), createGitHubConfig(upstreams)));
+  });
+
+  afterEach(async () => {
+    await mcp.close();
+  });
+
+  it("lists the debugging prompts", async () => {
+    const { prompts } = await mcp.client.listPrompts();
+
+    expect(prompts.map((prompt) => [prompt.name, prompt.arguments?.map((arg) => arg.name)])).toEqual([
+      ["diagnose_app", ["app"]],
+      ["investigate_deploy", ["app", "sha"]],
+    ]);
+  });
+
+  it("diagnose_app pre-fills pod states, crash logs, errors, ingress and oauth2-proxy health", async () => {
+    upstreams.logEntries = [
+      { timestamp: "2026-01-01T00:00:00Z", severity: "ERROR", textPayload: "connect ECONNREFUSED 10.0.0.5:5432" },
+    ];
+    upstreams.addObject({
+      kind: "Pod",
+      metadata: { name: "oauth2-proxy-1", namespace: "oauth2-proxy", labels: { app: "oauth2-proxy" } },
+      spec: { containers: [{ name: "oauth2-proxy", image: "oauth2-proxy:v7.5.1" }] },
+      status: {
+        phase: "Running",
+        conditions: [{ type: "Ready", status: "True" }],
+        containerStatuses: [{ name: "oauth2-proxy", ready: true, restartCount: 0, state: { running: {} } }],
+      },
+    });
+
+    const text = await getPromptText("diagnose_app", { app: "web" });
+
+    expect(text).toContain('Diagnose why the app "web"');
+    expect(text).toContain('"status": "CrashLoopBackOff"');
+    expect(text).toContain("panic: DATABASE_URL is not set");
+    expect(text).toContain("connect ECONNREFUSED 10.0.0.5:5432");
+    expect(text).toContain('"web.example.com"');
+    expect(text).toContain('"name": "oauth2-proxy-1"');
+  });
+
+  it("diagnose_app reports lookups that fail instead of failing the prompt", async () => {
+    upstreams.k8s.delete("/api/v1/namespaces/apps/services/web");
+
+    const text = await getPromptText("diagnose_app", { app: "web" });
+
+    expect(text).toMatch(/## Service\n\n```json\n\{\n  "error": "Failed to describe service\/web/);
+  });
+
+  it("investigate_deploy pre-fills the commit's runs and whether the image matches", async () => {
+    upstreams.workflowRuns = [
+      {
+        id: 301,
+        name: "Deploy App",
+        path: ".github/workflows/deploy-app.yml",
+        head_sha: "f00dfeed",
+        status: "completed",
+        conclusion: "failure",
+      },
+    ];
+
+    const text = await getPromptText("investigate_deploy", { app: "web", sha: "f00dfeed" });
+
+    expect(text).toContain("Investigate why commit f00dfeed did not go live");
+    expect(text).toContain('"matchesCommit": false');
+    expect(text).toContain('"conclusion": "failure"');
+    expect(text).toContain('"state": "progressing"');
+  });
+
+  it.each([
+    ["registry/web:f00dfeed0123456789abcdef0123456789abcdef", "f00dfee", true],
+    ["registry/web:F00DFEED", "f00dfeed0123456789abcdef0123456789abcdef", true],
+    ["registry/web:f00d", "f00dfeed0123456789abcdef0123456789abcdef", false],
+    ["registry/web:", "f00dfeed0123456789abcdef0123456789abcdef", false],
+    ["registry/web:f00dfeed", "f00d", false],
+  ])("investigate_deploy matches image %s against commit %s: %s", async (image, sha, matches) => {
+    upstreams.getObject("Deployment", "web").spec.template.spec.containers[0].image = image;
+
+    const text = await getPromptText("investigate_deploy", { app: "web", sha });
+
+    expect(text).toContain(`"matchesCommit": ${matches}`);
+  });
+
+  it("completes app names", async () => {
+    const { completion } = await mcp.client.complete({
+      ref: { type: "ref/prompt", name: "diagnose_app" },
+      argument: { name: "app", value: "we" },
+    });
+
+    expect(completion.values).toEqual(["web"]);
+  });
+});
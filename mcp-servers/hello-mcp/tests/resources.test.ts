@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FakeUpstreams } from "./support/fake-upstreams";
+import { connectServer, createGcpClient, seedWebApp } from "./support/fixtures";
+import { registerAppResources, registerPlatformResources } from "../src/resources";
+
+describe("MCP resources", () => {
+  let upstreams: FakeUpstreams;
+  let mcp: Awaited<ReturnType<typeof connectServer>>;
+
+  const read = async (uri: string) => {
+    const { contents } = await mcp.client.readResource({ uri });
+    return contents[0] as { uri: string; mimeType: string; text: string };
+  };
+
+  beforeEach(async () => {
+    upstreams = await FakeUpstreams.create();
+    seedWebApp(upstreams);
+    mcp = await connectServer((server) => {
+      registerPlatformResources(server);
+      registerAppResources(server, createGcpClient(upstreams));
+    });
+  });
+
+  afterEach(async () => {
+    await mcp.close();
+  });
+
+  it("lists app resources for every deployed app alongside the platform docs", async () => {
+    const { resources } = await mcp.client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        "platform://docs/creating-an-app",
+        "platform://templates/k8s/deployment.yaml",
+        "app://web/deployment",
+        "app://web/service",
+        "app://web/ingress",
+        "app://web/status",
+      ])
+    );
+
+    const { resourceTemplates } = await mcp.client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "app://{name}/deployment",
+      "app://{name}/service",
+      "app://{name}/ingress",
+      "app://{name}/status",
+    ]);
+  });
+
+  it("reads an app's Kubernetes objects", async () => {
+    const deployment = await read("app://web/deployment");
+    expect(deployment.mimeType).toBe("application/json");
+    expect(JSON.parse(deployment.text).spec.replicas).toBe(2);
+
+    expect(JSON.parse((await read("app://web/service")).text).kind).toBe("Service");
+  });
+
+  it("falls back to the oauth2-proxy Ingress name", async () => {
+    upstreams.k8s.delete("/apis/networking.k8s.io/v1/namespaces/apps/ingresses/web");
+    upstreams.addObject({ kind: "Ingress", metadata: { name: "web-oauth2" }, spec: {} });
+
+    expect(JSON.parse((await read("app://web/ingress")).text).metadata.name).toBe("web-oauth2");
+  });
+
+  it("reads an app's live status", async () => {
+    const status = JSON.parse((await read("app://web/status")).text);
+
+    expect(status.rollout.state).toBe("progressing");
+    expect(status.pods.map((pod: any) => pod.status)).toEqual(["Running", "CrashLoopBackOff"]);
+    expect(status.events[0]).toMatchObject({ object: "Pod/web-8c9d-crashing", reason: "BackOff" });
+  });
+
+  it("completes app names", async () => {
+    const { completion } = await mcp.client.complete({
+      ref: { type: "ref/resource", uri: "app://{name}/status" },
+      argument: { name: "name", value: "w" },
+    });
+
+    expect(completion.values).toEqual(["web"]);
+  });
+
+  it("serves the platform docs and app templates", async () => {
+    const doc = await read("platform://docs/creating-an-app");
+    expect(doc.mimeType).toBe("text/markdown");
+    expect(doc.text).toMatch(/^#/);
+
+    expect((await read("platform://templates/k8s/deployment.yaml")).text).toContain("kind: Deployment");
+  });
+});
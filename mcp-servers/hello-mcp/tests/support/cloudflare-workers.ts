@@ -0,0 +1,10 @@
+/**
+ * Stand-in for the "cloudflare:workers" runtime module when running under Node
+ *
+ * The OAuth provider only uses WorkerEntrypoint for instanceof checks on its
+ * handlers, which the tests pass as plain objects.
+ */
+
+export class WorkerEntrypoint {}
+
+export class DurableObject {}
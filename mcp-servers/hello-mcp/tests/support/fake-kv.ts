@@ -0,0 +1,38 @@
+/**
+ * In-memory KVNamespace covering the subset the OAuth provider and handler use
+ */
+
+export class FakeKV {
+  readonly entries = new Map<string, string>();
+
+  async get(key: string, options?: "text" | "json" | { type?: "text" | "json" }): Promise<any> {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return null;
+    }
+    const type = typeof options === "string" ? options : options?.type;
+    return type === "json" ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: { prefix?: string; limit?: number; cursor?: string } = {}) {
+    const names = [...this.entries.keys()].filter((name) => name.startsWith(options.prefix ?? "")).sort();
+    const start = Number(options.cursor || 0);
+    const end = start + (options.limit ?? 1000);
+    const page = names.slice(start, end);
+    const complete = end >= names.length;
+
+    return {
+      keys: page.map((name) => ({ name })),
+      list_complete: complete,
+      cursor: complete ? undefined : String(end),
+    };
+  }
+}
@@ -0,0 +1,649 @@
+/**
+ * In-process fakes for the upstream APIs the MCP server talks to
+ *
+ * FakeUpstreams.fetch routes requests by host to fakes of Google OAuth
+ * (service account and sign-in token exchange, JWKS), the GKE API, a
+ * Kubernetes API server behind the TLS gateway, Cloud Logging, Cloud
+ * Monitoring and GitHub. Pass it as GCPConfig.fetch / GitHubConfig.fetch,
+ * or stub the global fetch with it for code that has no config.
+ */
+
+import { generateTestKey, serviceAccountKeyJson, sha256Base64Url, signTestJwt, verifyTestJwt, type TestKey } from "./keys";
+
+export const PROJECT_ID = "test-project";
+export const CLUSTER_NAME = "test-cluster";
+export const REGION = "europe-west2";
+export const CLUSTER_ENDPOINT = "10.0.0.1";
+export const KUBE_PROXY_URL = "https://kube-proxy.test";
+export const GOOGLE_CLIENT_ID = "test-client.apps.googleusercontent.com";
+export const SERVICE_ACCOUNT_EMAIL = `mcp@${PROJECT_ID}.iam.gserviceaccount.com`;
+export const GITHUB_TOKEN = "ghp_test";
+
+const CA_CERTIFICATE = btoa("-----BEGIN CERTIFICATE-----\nMIIBfake\n-----END CERTIFICATE-----\n");
+
+// Kubernetes collection paths by kind
+const K8S_COLLECTIONS: Record<string, (namespace: string) => string> = {
+  Pod: (ns) => `/api/v1/namespaces/${ns}/pods`,
+  Service: (ns) => `/api/v1/namespaces/${ns}/services`,
+  Event: (ns) => `/api/v1/namespaces/${ns}/events`,
+  Deployment: (ns) => `/apis/apps/v1/namespaces/${ns}/deployments`,
+  ReplicaSet: (ns) => `/apis/apps/v1/namespaces/${ns}/replicasets`,
+  Ingress: (ns) => `/apis/networking.k8s.io/v1/namespaces/${ns}/ingresses`,
+  Endpoints: (ns) => `/api/v1/namespaces/${ns}/endpoints`,
+  Secret: (ns) => `/api/v1/namespaces/${ns}/secrets`,
+  Certificate: (ns) => `/apis/cert-manager.io/v1/namespaces/${ns}/certificates`,
+  CertificateRequest: (ns) => `/apis/cert-manager.io/v1/namespaces/${ns}/certificaterequests`,
+};
+
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: string;
+}
+
+// A Google account that can sign in at the fake consent screen
+export interface GoogleUser {
+  sub: string;
+  email: string;
+  emailVerified?: boolean;
+  hd?: string;
+  name?: string;
+}
+
+interface IssuedCode {
+  user: GoogleUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function k8sStatus(status: number, reason: string, message: string): Response {
+  return json({ kind: "Status", apiVersion: "v1", status: "Failure", reason, message, code: status }, status);
+}
+
+function matchesLabelSelector(object: any, selector: string | null): boolean {
+  if (!selector) {
+    return true;
+  }
+  return selector.split(",").every((term) => {
+    const [key, value] = term.split("=");
+    return object.metadata?.labels?.[key] === value;
+  });
+}
+
+function matchesFieldSelector(object: any, selector: string | null): boolean {
+  if (!selector) {
+    return true;
+  }
+  return selector.split(",").every((term) => {
+    const [path, value] = term.split("=");
+    const actual = path.split(".").reduce((current: any, key) => current?.[key], object);
+    return actual === value;
+  });
+}
+
+/**
+ * Deep-merge a merge patch into an object (null deletes a key)
+ */
+function mergePatch(target: any, patch: any): any {
+  if (typeof patch !== "object" || patch === null || Array.isArray(patch)) {
+    return patch;
+  }
+  const result = typeof target === "object" && target !== null && !Array.isArray(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a Secret write the way the API server does: fold the write-only
+ * stringData into base64 data, and record which keys the field manager owns
+ */
+function writeSecret(secret: any, manager: string): void {
+  const written = Object.keys(secret.stringData || {});
+  for (const [key, value] of Object.entries(secret.stringData || {})) {
+    secret.data = { ...secret.data, [key]: btoa(value as string) };
+  }
+  delete secret.stringData;
+
+  const keys = Object.keys(secret.data || {});
+  const managedFields: any[] = (secret.metadata.managedFields ||= []);
+  let entry = managedFields.find((field) => field.manager === manager);
+  if (!entry) {
+    entry = { manager, operation: "Update", fieldsV1: { "f:data": {} } };
+    managedFields.push(entry);
+  }
+  entry.time = new Date().toISOString();
+  for (const key of written) {
+    entry.fieldsV1["f:data"][`f:${key}`] = {};
+  }
+  for (const field of managedFields) {
+    const owned = field.fieldsV1?.["f:data"] || {};
+    for (const name of Object.keys(owned)) {
+      if (!keys.includes(name.slice(2))) {
+        delete owned[name];
+      }
+    }
+  }
+}
+
+export class FakeUpstreams {
+  readonly requests: RecordedRequest[] = [];
+
+  // Google
+  serviceAccountKey!: TestKey;
+  googleSigningKey!: TestKey;
+  readonly validAccessTokens = new Set<string>();
+  private readonly codes = new Map<string, IssuedCode>();
+  private tokenCounter = 0;
+
+  // Kubernetes objects keyed by their API path, plus container logs keyed by pod/container
+  readonly k8s = new Map<string, any>();
+  readonly podLogs = new Map<string, { timestamp: string; text: string }[]>();
+
+  // Apps behind the API server's service proxy, keyed by namespace/service:port
+  readonly serviceHandlers = new Map<string, (request: RecordedRequest) => Response>();
+
+  // Cloud Logging entries (newest first) and Monitoring series keyed by metric type
+  logEntries: any[] = [];
+  readonly timeSeries = new Map<string, any[]>();
+
+  // Cloud SQL instances, plus databases and users keyed by instance/name
+  readonly sqlInstances: any[] = [];
+  readonly sqlDatabases = new Map<string, any>();
+  readonly sqlUsers = new Map<string, { name: string; password: string }>();
+  private readonly sqlOperations = new Map<string, any>();
+
+  // Artifact Registry images in the apps' Docker repository
+  dockerImages: any[] = [];
+
+  // GitHub Actions
+  workflowRuns: any[] = [];
+  readonly jobs = new Map<number, any>();
+  readonly jobLogs = new Map<number, string>();
+  readonly rerunRequests: number[] = [];
+
+  /**
+   * Create the fakes with freshly generated keys
+   */
+  static async create(): Promise<FakeUpstreams> {
+    const upstreams = new FakeUpstreams();
+    upstreams.serviceAccountKey = await generateTestKey("service-account-key");
+    // Unique kid, so the ID token verifier's JWKS cache never holds another test's key
+    upstreams.googleSigningKey = await generateTestKey(`google-${crypto.randomUUID()}`);
+    return upstreams;
+  }
+
+  /**
+   * Service account key JSON for GCPConfig.serviceAccountKey
+   */
+  get serviceAccountKeyJson(): string {
+    return serviceAccountKeyJson(this.serviceAccountKey, PROJECT_ID, SERVICE_ACCOUNT_EMAIL);
+  }
+
+  /**
+   * Invalidate every issued access token, as if they had all expired
+   */
+  expireAccessTokens(): void {
+    this.validAccessTokens.clear();
+  }
+
+  /**
+   * Requests made to a host, optionally filtered by path prefix
+   */
+  requestsTo(host: string, pathPrefix = ""): RecordedRequest[] {
+    return this.requests.filter((request) => request.url.host === host && request.url.pathname.startsWith(pathPrefix));
+  }
+
+  /**
+   * Add a Kubernetes object (defaults its namespace to "apps")
+   */
+  addObject(object: any): any {
+    object.metadata.namespace ??= "apps";
+    const collection = K8S_COLLECTIONS[object.kind];
+    if (!collection) {
+      throw new Error(`FakeUpstreams: unsupported kind ${object.kind}`);
+    }
+    this.k8s.set(`${collection(object.metadata.namespace)}/${object.metadata.name}`, object);
+    return object;
+  }
+
+  /**
+   * Get a Kubernetes object by kind and name
+   */
+  getObject(kind: string, name: string, namespace = "apps"): any {
+    return this.k8s.get(`${K8S_COLLECTIONS[kind](namespace)}/${name}`);
+  }
+
+  /**
+   * Set a container's log lines (or its previous instance's, for previous=true)
+   */
+  setPodLogs(pod: string, container: string, lines: { timestamp: string; text: string }[], previous = false): void {
+    this.podLogs.set(`${pod}/${container}${previous ? "/previous" : ""}`, lines);
+  }
+
+  /**
+   * Serve an app behind a Service port, reached through the service proxy
+   */
+  setServiceHandler(service: string, port: string, handler: (request: RecordedRequest) => Response, namespace = "apps"): void {
+    this.serviceHandlers.set(`${namespace}/${service}:${port}`, handler);
+  }
+
+  /**
+   * Play the user's part at Google's consent screen: given the authorization
+   * URL the handler redirected to, return the callback URL Google would send
+   * the browser back to
+   */
+  signInAtGoogle(authorizationUrl: string, user: GoogleUser): string {
+    const url = new URL(authorizationUrl);
+    const code = `google-code-${crypto.randomUUID()}`;
+    this.codes.set(code, {
+      user,
+      clientId: url.searchParams.get("client_id")!,
+      redirectUri: url.searchParams.get("redirect_uri")!,
+      nonce: url.searchParams.get("nonce") ?? undefined,
+      codeChallenge: url.searchParams.get("code_challenge") ?? undefined,
+    });
+
+    const callback = new URL(url.searchParams.get("redirect_uri")!);
+    callback.searchParams.set("code", code);
+    callback.searchParams.set("state", url.searchParams.get("state")!);
+    return callback.toString();
+  }
+
+  /**
+   * fetch() routed to the fakes
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const body = request.method === "GET" || request.method === "HEAD" ? "" : await request.text();
+    this.requests.push({ method: request.method, url, headers: request.headers, body });
+
+    switch (url.host) {
+      case "oauth2.googleapis.com":
+        return this.handleGoogleToken(body);
+      case "www.googleapis.com":
+        return json({ keys: [this.googleSigningKey.publicJwk] });
+      case "container.googleapis.com":
+        return this.authorized(request, () => this.handleContainer(url));
+      case new URL(KUBE_PROXY_URL).host:
+        return this.authorized(request, () => this.handleKubernetes(request, url, body));
+      case "logging.googleapis.com":
+        return this.authorized(request, () => this.handleLogging(body));
+      case "monitoring.googleapis.com":
+        return this.authorized(request, () => this.handleMonitoring(url));
+      case "sqladmin.googleapis.com":
+        return this.authorized(request, () => this.handleCloudSql(request, url, body));
+      case "artifactregistry.googleapis.com":
+        return this.authorized(request, () => this.handleArtifactRegistry(url));
+      case "api.github.com":
+        return this.handleGitHub(request, url);
+      default:
+        throw new TypeError(`FakeUpstreams: no fake for ${request.method} ${url}`);
+    }
+  };
+
+  private issueAccessToken(): string {
+    const token = `ya29.test-${++this.tokenCounter}`;
+    this.validAccessTokens.add(token);
+    return token;
+  }
+
+  private authorized(request: Request, handler: () => Response | Promise<Response>): Response | Promise<Response> {
+    const token = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+    if (!token || !this.validAccessTokens.has(token)) {
+      return json({ error: { code: 401, message: "Request had invalid authentication credentials.", status: "UNAUTHENTICATED" } }, 401);
+    }
+    return handler();
+  }
+
+  private async handleGoogleToken(body: string): Promise<Response> {
+    const params = new URLSearchParams(body);
+
+    // Service account JWT bearer grant: the assertion must be signed with the account's key
+    if (params.get("grant_type") === "urn:ietf:params:oauth:grant-type:jwt-bearer") {
+      const claims = await verifyTestJwt(this.serviceAccountKey, params.get("assertion") || "");
+      if (!claims || claims.iss !== SERVICE_ACCOUNT_EMAIL || claims.aud !== "https://oauth2.googleapis.com/token") {
+        return json({ error: "invalid_grant", error_description: "Invalid JWT Signature." }, 400);
+      }
+      return json({ access_token: this.issueAccessToken(), expires_in: 3599, token_type: "Bearer" });
+    }
+
+    // Sign-in authorization code grant, with PKCE
+    if (params.get("grant_type") === "authorization_code") {
+      const issued = this.codes.get(params.get("code") || "");
+      this.codes.delete(params.get("code") || "");
+      if (!issued || issued.clientId !== params.get("client_id") || issued.redirectUri !== params.get("redirect_uri")) {
+        return json({ error: "invalid_grant", error_description: "Bad Request" }, 400);
+      }
+      if (issued.codeChallenge && (await sha256Base64Url(params.get("code_verifier") || "")) !== issued.codeChallenge) {
+        return json({ error: "invalid_grant", error_description: "Invalid code verifier." }, 400);
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await signTestJwt(this.googleSigningKey, {
+        iss: "https://accounts.google.com",
+        aud: issued.clientId,
+        sub: issued.user.sub,
+        email: issued.user.email,
+        email_verified: issued.user.emailVerified ?? true,
+        hd: issued.user.hd,
+        name: issued.user.name,
+        nonce: issued.nonce,
+        iat: now,
+        exp: now + 3600,
+      });
+      return json({ access_token: this.issueAccessToken(), id_token: idToken, expires_in: 3599, token_type: "Bearer" });
+    }
+
+    return json({ error: "unsupported_grant_type" }, 400);
+  }
+
+  private handleContainer(url: URL): Response {
+    if (url.pathname !== `/v1/projects/${PROJECT_ID}/locations/${REGION}/clusters/${CLUSTER_NAME}`) {
+      return json({ error: { code: 404, message: "Not found", status: "NOT_FOUND" } }, 404);
+    }
+    return json({
+      name: CLUSTER_NAME,
+      endpoint: CLUSTER_ENDPOINT,
+      masterAuth: { clusterCaCertificate: CA_CERTIFICATE },
+    });
+  }
+
+  private handleKubernetes(request: Request, url: URL, body: string): Response {
+    // The gateway must be told which cluster to reach and which CA to trust
+    if (request.headers.get("X-Kube-Endpoint") !== CLUSTER_ENDPOINT || request.headers.get("X-Kube-CA-Certificate") !== CA_CERTIFICATE) {
+      return new Response("gateway: missing or wrong cluster endpoint/CA headers", { status: 502 });
+    }
+
+    const path = url.pathname;
+
+    // Container logs
+    const logMatch = path.match(/^\/api\/v1\/namespaces\/[^/]+\/pods\/([^/]+)\/log$/);
+    if (logMatch) {
+      return this.handlePodLog(path.replace(/\/log$/, ""), logMatch[1], url);
+    }
+
+    // Service proxy: the request is passed on to the app with the path after /proxy
+    const proxyMatch = path.match(/^\/api\/v1\/namespaces\/([^/]+)\/services\/([^/:]+):([^/]+)\/proxy(\/.*)?$/);
+    if (proxyMatch) {
+      const [, namespace, service, port, appPath = "/"] = proxyMatch;
+      if (!this.getObject("Service", service, namespace)) {
+        return k8sStatus(404, "NotFound", `services "${service}" not found`);
+      }
+      const handler = this.serviceHandlers.get(`${namespace}/${service}:${port}`);
+      if (!handler) {
+        return k8sStatus(503, "ServiceUnavailable", `no endpoints available for service "${service}"`);
+      }
+      return handler({ method: request.method, url: new URL(`${appPath}${url.search}`, "http://app"), headers: request.headers, body });
+    }
+
+    // Deployment scale subresource
+    if (path.endsWith("/scale") && request.method === "PATCH") {
+      const deployment = this.k8s.get(path.replace(/\/scale$/, ""));
+      if (!deployment) {
+        return k8sStatus(404, "NotFound", `deployments.apps "${path.split("/").at(-2)}" not found`);
+      }
+      deployment.spec.replicas = JSON.parse(body).spec.replicas;
+      this.settleDeployment(deployment);
+      return json({ kind: "Scale", spec: { replicas: deployment.spec.replicas } });
+    }
+
+    if (request.method === "PATCH") {
+      return this.handlePatch(path, url, request.headers.get("Content-Type") || "", body);
+    }
+
+    if (request.method === "POST") {
+      return this.handleCreate(path, url, body);
+    }
+
+    const object = this.k8s.get(path);
+    if (object) {
+      return json(object);
+    }
+
+    // Collection: objects exactly one path segment below it
+    const items = [...this.k8s.entries()]
+      .filter(([key]) => key.startsWith(`${path}/`) && !key.slice(path.length + 1).includes("/"))
+      .map(([, item]) => item)
+      .filter((item) => matchesLabelSelector(item, url.searchParams.get("labelSelector")))
+      .filter((item) => matchesFieldSelector(item, url.searchParams.get("fieldSelector")));
+
+    if (Object.values(K8S_COLLECTIONS).some((collection) => collection(path.split("/").at(-2) || "") === path)) {
+      return json({ kind: "List", items });
+    }
+
+    const [kindPlural, name] = path.split("/").slice(-2);
+    return k8sStatus(404, "NotFound", `${kindPlural} "${name}" not found`);
+  }
+
+  private handlePodLog(podPath: string, podName: string, url: URL): Response {
+    const pod = this.k8s.get(podPath);
+    if (!pod) {
+      return k8sStatus(404, "NotFound", `pods "${podName}" not found`);
+    }
+
+    const container = url.searchParams.get("container") || pod.spec.containers[0].name;
+    const previous = url.searchParams.get("previous") === "true";
+    const lines = this.podLogs.get(`${podName}/${container}${previous ? "/previous" : ""}`);
+    if (!lines) {
+      return k8sStatus(400, "BadRequest", `previous terminated container "${container}" in pod "${podName}" not found`);
+    }
+
+    const tail = Number(url.searchParams.get("tailLines") || lines.length);
+    const timestamps = url.searchParams.get("timestamps") === "true";
+    const text = lines
+      .slice(-tail)
+      .map((line) => (timestamps ? `${line.timestamp} ${line.text}` : line.text))
+      .join("\n");
+    return new Response(text ? `${text}\n` : "", { headers: { "Content-Type": "text/plain" } });
+  }
+
+  private handleCreate(path: string, url: URL, body: string): Response {
+    const object = JSON.parse(body);
+    const collection = K8S_COLLECTIONS[object.kind];
+    if (!collection || collection(object.metadata.namespace ?? "apps") !== path) {
+      return k8sStatus(400, "BadRequest", `FakeUpstreams: can't create ${object.kind} at ${path}`);
+    }
+    if (this.k8s.has(`${path}/${object.metadata.name}`)) {
+      return k8sStatus(409, "AlreadyExists", `${path.split("/").at(-1)} "${object.metadata.name}" already exists`);
+    }
+
+    object.metadata.creationTimestamp = new Date().toISOString();
+    if (object.kind === "Secret") {
+      writeSecret(object, url.searchParams.get("fieldManager") || "unknown");
+    }
+    this.addObject(object);
+    return json(object, 201);
+  }
+
+  private handlePatch(path: string, url: URL, contentType: string, body: string): Response {
+    const object = this.k8s.get(path);
+    if (!object) {
+      return k8sStatus(404, "NotFound", `${path.split("/").at(-2)} "${path.split("/").at(-1)}" not found`);
+    }
+
+    const patch = JSON.parse(body);
+    if (contentType === "application/json-patch+json") {
+      for (const operation of patch) {
+        if (operation.op !== "replace" || operation.path !== "/spec/template") {
+          return k8sStatus(422, "Invalid", `FakeUpstreams: unsupported JSON patch ${JSON.stringify(operation)}`);
+        }
+        object.spec.template = operation.value;
+      }
+    } else {
+      Object.assign(object, mergePatch(object, patch));
+    }
+
+    if (object.kind === "Deployment") {
+      object.metadata.generation = (object.metadata.generation || 1) + 1;
+      this.settleDeployment(object);
+    }
+    if (object.kind === "Secret") {
+      writeSecret(object, url.searchParams.get("fieldManager") || "unknown");
+    }
+    return json(object);
+  }
+
+  /**
+   * Pretend the deployment controller finished rolling out the current spec
+   */
+  private settleDeployment(deployment: any): void {
+    const replicas = deployment.spec.replicas ?? 1;
+    deployment.status = {
+      ...deployment.status,
+      observedGeneration: deployment.metadata.generation || 1,
+      replicas,
+      updatedReplicas: replicas,
+      readyReplicas: replicas,
+      availableReplicas: replicas,
+      unavailableReplicas: 0,
+    };
+  }
+
+  private handleLogging(body: string): Response {
+    const { pageSize = 50, pageToken } = JSON.parse(body);
+    const start = Number(pageToken || 0);
+    const entries = this.logEntries.slice(start, start + pageSize);
+    const next = start + pageSize < this.logEntries.length ? String(start + pageSize) : undefined;
+    return json({ entries, nextPageToken: next });
+  }
+
+  private handleMonitoring(url: URL): Response {
+    const type = url.searchParams.get("filter")?.match(/metric\.type="([^"]+)"/)?.[1] || "";
+    return json({ timeSeries: this.timeSeries.get(type) || [] });
+  }
+
+  private handleCloudSql(request: Request, url: URL, body: string): Response {
+    const notFound = (what: string) => json({ error: { code: 404, message: `${what} not found`, status: "NOT_FOUND" } }, 404);
+    // Mutations return a pending operation that is done by the first poll
+    const operation = (type: string) => {
+      const name = `op-${this.sqlOperations.size + 1}`;
+      this.sqlOperations.set(name, { kind: "sql#operation", name, operationType: type, status: "DONE" });
+      return json({ kind: "sql#operation", name, operationType: type, status: "PENDING" });
+    };
+
+    const path = url.pathname.replace(`/v1/projects/${PROJECT_ID}`, "");
+    let match: RegExpMatchArray | null;
+
+    if ((match = path.match(/^\/operations\/([^/]+)$/))) {
+      return this.sqlOperations.has(match[1]) ? json(this.sqlOperations.get(match[1])) : notFound(`Operation ${match[1]}`);
+    }
+    if (path === "/instances") {
+      return json({ items: this.sqlInstances });
+    }
+    if (!(match = path.match(/^\/instances\/([^/]+)(\/.*)?$/))) {
+      return notFound(path);
+    }
+
+    const [, instanceName, rest = ""] = match;
+    const instance = this.sqlInstances.find((item) => item.name === instanceName);
+    if (!instance) {
+      return notFound(`Instance ${instanceName}`);
+    }
+    if (rest === "") {
+      return json(instance);
+    }
+
+    if (rest === "/databases" && request.method === "POST") {
+      const { name } = JSON.parse(body);
+      this.sqlDatabases.set(`${instanceName}/${name}`, { kind: "sql#database", name, instance: instanceName });
+      return operation("CREATE_DATABASE");
+    }
+    if ((match = rest.match(/^\/databases\/([^/]+)$/))) {
+      const key = `${instanceName}/${match[1]}`;
+      if (!this.sqlDatabases.has(key)) {
+        return notFound(`Database ${match[1]}`);
+      }
+      if (request.method === "DELETE") {
+        this.sqlDatabases.delete(key);
+        return operation("DELETE_DATABASE");
+      }
+      return json(this.sqlDatabases.get(key));
+    }
+
+    if (rest === "/users" && request.method === "POST") {
+      const { name, password } = JSON.parse(body);
+      this.sqlUsers.set(`${instanceName}/${name}`, { name, password });
+      return operation("CREATE_USER");
+    }
+    if (rest === "/users" && (request.method === "PUT" || request.method === "DELETE")) {
+      const key = `${instanceName}/${url.searchParams.get("name")}`;
+      if (!this.sqlUsers.has(key)) {
+        return notFound(`User ${url.searchParams.get("name")}`);
+      }
+      if (request.method === "DELETE") {
+        this.sqlUsers.delete(key);
+        return operation("DELETE_USER");
+      }
+      this.sqlUsers.get(key)!.password = JSON.parse(body).password;
+      return operation("UPDATE_USER");
+    }
+    if ((match = rest.match(/^\/users\/([^/]+)$/))) {
+      const user = this.sqlUsers.get(`${instanceName}/${match[1]}`);
+      return user ? json({ kind: "sql#user", name: user.name, instance: instanceName }) : notFound(`User ${match[1]}`);
+    }
+
+    return notFound(rest);
+  }
+
+  private handleArtifactRegistry(url: URL): Response {
+    const repository = `/v1/projects/${PROJECT_ID}/locations/${REGION}/repositories/${CLUSTER_NAME}-containers`;
+    if (url.pathname !== `${repository}/dockerImages`) {
+      return json({ error: { code: 404, message: `${url.pathname} not found`, status: "NOT_FOUND" } }, 404);
+    }
+
+    const pageSize = Number(url.searchParams.get("pageSize") || 100);
+    const start = Number(url.searchParams.get("pageToken") || 0);
+    const next = start + pageSize < this.dockerImages.length ? String(start + pageSize) : undefined;
+    return json({ dockerImages: this.dockerImages.slice(start, start + pageSize), nextPageToken: next });
+  }
+
+  private handleGitHub(request: Request, url: URL): Response {
+    if (request.headers.get("Authorization") !== `Bearer ${GITHUB_TOKEN}`) {
+      return json({ message: "Bad credentials" }, 401);
+    }
+
+    const path = url.pathname.replace(/^\/repos\/[^/]+\/[^/]+/, "");
+    let match: RegExpMatchArray | null;
+
+    if (path === "/actions/runs" || /^\/actions\/workflows\/[^/]+\/runs$/.test(path)) {
+      const workflow = path.match(/^\/actions\/workflows\/([^/]+)\/runs$/)?.[1];
+      const runs = this.workflowRuns
+        .filter((run) => !workflow || run.path.endsWith(`/${decodeURIComponent(workflow)}`))
+        .filter((run) => !url.searchParams.get("branch") || run.head_branch === url.searchParams.get("branch"))
+        .filter((run) => !url.searchParams.get("head_sha") || run.head_sha === url.searchParams.get("head_sha"));
+      return json({ total_count: runs.length, workflow_runs: runs.slice(0, Number(url.searchParams.get("per_page") || 30)) });
+    }
+    if ((match = path.match(/^\/actions\/runs\/(\d+)\/jobs$/))) {
+      const runId = Number(match[1]);
+      return json({ jobs: [...this.jobs.values()].filter((job) => job.run_id === runId) });
+    }
+    if ((match = path.match(/^\/actions\/runs\/(\d+)\/rerun-failed-jobs$/)) && request.method === "POST") {
+      this.rerunRequests.push(Number(match[1]));
+      return new Response(null, { status: 201 });
+    }
+    if ((match = path.match(/^\/actions\/jobs\/(\d+)\/logs$/))) {
+      const log = this.jobLogs.get(Number(match[1]));
+      return log === undefined ? json({ message: "Not Found" }, 404) : new Response(log);
+    }
+    if ((match = path.match(/^\/actions\/jobs\/(\d+)$/))) {
+      const job = this.jobs.get(Number(match[1]));
+      return job ? json(job) : json({ message: "Not Found" }, 404);
+    }
+
+    return json({ message: "Not Found" }, 404);
+  }
+}
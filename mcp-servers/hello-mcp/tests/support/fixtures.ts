@@ -0,0 +1,195 @@
+/**
+ * Shared test fixtures: a GCPClient wired to the fakes, a seeded "web" app,
+ * and an MCP client connected to a server with the tool modules registered
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Role } from "../../src/access-policy";
+import { GCPClient, type GCPConfig } from "../../src/gcp-tools";
+import type { GitHubConfig } from "../../src/github-tools";
+import { registerTools, type ToolCall, type ToolDefinition } from "../../src/tools/registry";
+import { CLUSTER_NAME, GITHUB_TOKEN, KUBE_PROXY_URL, PROJECT_ID, REGION, type FakeUpstreams } from "./fake-upstreams";
+
+/**
+ * GCPClient whose every request goes to the fakes
+ */
+export function createGcpClient(upstreams: FakeUpstreams, overrides: Partial<GCPConfig> = {}): GCPClient {
+  return new GCPClient({
+    projectId: PROJECT_ID,
+    clusterName: CLUSTER_NAME,
+    region: REGION,
+    serviceAccountKey: upstreams.serviceAccountKeyJson,
+    kubeApiProxyUrl: KUBE_PROXY_URL,
+    fetch: upstreams.fetch,
+    ...overrides,
+  });
+}
+
+/**
+ * GitHubConfig pointed at the fake GitHub API
+ */
+export function createGitHubConfig(upstreams: FakeUpstreams): GitHubConfig {
+  return { token: GITHUB_TOKEN, owner: "jerome3o", repo: "tech-island", fetch: upstreams.fetch };
+}
+
+/**
+ * Connect an MCP client to a server set up by the given callback
+ */
+export async function connectServer(setup: (server: McpServer) => void) {
+  const server = new McpServer({ name: "hello-mcp-test", version: "1.0.0" });
+  setup(server);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  return { client, server, close: () => client.close() };
+}
+
+/**
+ * Connect an MCP client to a server with the given tools registered
+ */
+export async function connectTools(tools: ToolDefinition<any>[], role: Role = "operator") {
+  const calls: ToolCall[] = [];
+  const connection = await connectServer((server) => registerTools(server, tools, { role, onCall: (call) => calls.push(call) }));
+
+  /**
+   * Call a tool and return its text output, parsed as JSON when possible
+   */
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = (await connection.client.callTool({ name, arguments: args })) as any;
+    const text: string = result.content?.[0]?.text ?? "";
+    let data: any = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plain-text result
+    }
+    return { isError: !!result.isError, text, data, structuredContent: result.structuredContent };
+  };
+
+  return { ...connection, calls, call };
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+/**
+ * Seed the fake cluster with a "web" deployment at revision 3: one healthy
+ * pod, one crash-looping pod, the ReplicaSets for revisions 2 and 3, a
+ * Service, an Ingress and some events
+ */
+export function seedWebApp(upstreams: FakeUpstreams): void {
+  const template = (image: string, hash: string) => ({
+    metadata: { labels: { app: "web", "pod-template-hash": hash } },
+    spec: { containers: [{ name: "web", image }] },
+  });
+
+  upstreams.addObject({
+    kind: "Deployment",
+    apiVersion: "apps/v1",
+    metadata: {
+      name: "web",
+      uid: "deployment-web",
+      generation: 3,
+      labels: { app: "web" },
+      annotations: { "deployment.kubernetes.io/revision": "3" },
+    },
+    spec: {
+      replicas: 2,
+      selector: { matchLabels: { app: "web" } },
+      template: { metadata: { labels: { app: "web" } }, spec: { containers: [{ name: "web", image: "web:v3" }] } },
+    },
+    status: {
+      observedGeneration: 3,
+      replicas: 2,
+      updatedReplicas: 2,
+      readyReplicas: 1,
+      availableReplicas: 1,
+      unavailableReplicas: 1,
+      conditions: [{ type: "Progressing", status: "True", reason: "ReplicaSetUpdated" }],
+    },
+  });
+
+  for (const [name, revision, image] of [["web-6b7f", "2", "web:v2"], ["web-8c9d", "3", "web:v3"]]) {
+    upstreams.addObject({
+      kind: "ReplicaSet",
+      metadata: {
+        name,
+        labels: { app: "web", "pod-template-hash": name.slice(4) },
+        annotations: { "deployment.kubernetes.io/revision": revision },
+        ownerReferences: [{ kind: "Deployment", name: "web", uid: "deployment-web" }],
+      },
+      spec: { template: template(image, name.slice(4)) },
+    });
+  }
+
+  upstreams.addObject({
+    kind: "Pod",
+    metadata: { name: "web-8c9d-healthy", labels: { app: "web" }, creationTimestamp: minutesAgo(30) },
+    spec: { nodeName: "node-1", containers: [{ name: "web", image: "web:v3" }] },
+    status: {
+      phase: "Running",
+      conditions: [{ type: "Ready", status: "True" }],
+      containerStatuses: [{ name: "web", ready: true, restartCount: 0, state: { running: { startedAt: minutesAgo(30) } } }],
+    },
+  });
+  upstreams.addObject({
+    kind: "Pod",
+    metadata: { name: "web-8c9d-crashing", labels: { app: "web" }, creationTimestamp: minutesAgo(30) },
+    spec: { nodeName: "node-2", containers: [{ name: "web", image: "web:v3" }] },
+    status: {
+      phase: "Running",
+      conditions: [{ type: "Ready", status: "False" }],
+      containerStatuses: [
+        {
+          name: "web",
+          ready: false,
+          restartCount: 4,
+          state: { waiting: { reason: "CrashLoopBackOff", message: "back-off 1m20s restarting failed container" } },
+          lastState: { terminated: { reason: "Error", exitCode: 1, finishedAt: minutesAgo(1) } },
+        },
+      ],
+    },
+  });
+
+  upstreams.addObject({
+    kind: "Service",
+    metadata: { name: "web", labels: { app: "web" } },
+    spec: { selector: { app: "web" }, ports: [{ port: 80, targetPort: 8080 }] },
+  });
+  upstreams.addObject({
+    kind: "Ingress",
+    metadata: { name: "web", labels: { app: "web" } },
+    spec: { rules: [{ host: "web.example.com" }] },
+  });
+
+  const event = (name: string, kind: string, object: string, reason: string, message: string, minutes: number, count = 1) =>
+    upstreams.addObject({
+      kind: "Event",
+      metadata: { name, creationTimestamp: minutesAgo(minutes) },
+      involvedObject: { kind, name: object },
+      type: reason === "BackOff" ? "Warning" : "Normal",
+      reason,
+      message,
+      count,
+      firstTimestamp: minutesAgo(minutes),
+      lastTimestamp: minutesAgo(minutes),
+    });
+  event("web.1", "Deployment", "web", "ScalingReplicaSet", "Scaled up replica set web-8c9d to 2", 30);
+  event("web-8c9d-crashing.1", "Pod", "web-8c9d-crashing", "BackOff", "Back-off restarting failed container", 5, 3);
+  event("web-8c9d-crashing.2", "Pod", "web-8c9d-crashing", "BackOff", "Back-off restarting failed container", 2, 2);
+  event("other.1", "Pod", "other-1234", "Pulled", "Container image pulled", 1);
+
+  upstreams.setPodLogs("web-8c9d-healthy", "web", [
+    { timestamp: "2026-01-01T00:00:01Z", text: "listening on :8080" },
+    { timestamp: "2026-01-01T00:00:03Z", text: "GET / 200" },
+  ]);
+  upstreams.setPodLogs("web-8c9d-crashing", "web", [
+    { timestamp: "2026-01-01T00:00:02Z", text: "connecting to database" },
+  ]);
+  upstreams.setPodLogs("web-8c9d-crashing", "web", [
+    { timestamp: "2026-01-01T00:00:00Z", text: "panic: DATABASE_URL is not set" },
+  ], true);
+}
@@ -0,0 +1,33 @@
+/**
+ * In-memory SQLite behind the McpAgent sql template tag, for code that
+ * writes to the agent's Durable Object storage
+ */
+
+import initSqlJs from "sql.js";
+import type { SqlTag } from "../../src/audit";
+
+/**
+ * A sql tag over a fresh in-memory database. Like the Durable Object's
+ * sql.exec(), each interpolated value is bound as a parameter.
+ */
+export async function createSql(): Promise<SqlTag & { close: () => void }> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  const sql = ((strings: TemplateStringsArray, ...values: (string | number | boolean | null)[]) => {
+    const statement = db.prepare(strings.join("?"));
+    try {
+      statement.bind(values.map((value) => (typeof value === "boolean" ? Number(value) : value)));
+      const rows: Record<string, unknown>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }) as SqlTag & { close: () => void };
+  sql.close = () => db.close();
+
+  return sql;
+}
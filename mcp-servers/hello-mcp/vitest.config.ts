@@ -0,0 +1,30 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [
+    {
+      // Import docs and manifests as text, like the "Text" module rule in wrangler.jsonc
+      name: "text-modules",
+      transform(code, id) {
+        if (/\.(md|yaml)$/.test(id)) {
+          return { code: `export default ${JSON.stringify(code)};`, map: null };
+        }
+      },
+    },
+  ],
+  resolve: {
+    alias: {
+      // Runtime module provided by workerd; the tests run under Node
+      "cloudflare:workers": new URL("./tests/support/cloudflare-workers.ts", import.meta.url).pathname,
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    server: {
+      deps: {
+        // Bundle it so the cloudflare:workers alias applies to its imports
+        inline: ["@cloudflare/workers-oauth-provider"],
+      },
+    },
+  },
+});